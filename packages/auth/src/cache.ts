@@ -0,0 +1,62 @@
+/**
+ * In-memory response cache
+ *
+ * Entries expire after a TTL and remember the response's ETag, so a stale
+ * entry can be revalidated with `If-None-Match` instead of downloaded again.
+ * The oldest entries are evicted once `maxEntries` is reached.
+ */
+
+export interface CacheOptions {
+  /** Seconds an entry is served without revalidation. Default: 300 */
+  ttl?: number;
+  /** Maximum number of entries. Default: 1000 */
+  maxEntries?: number;
+}
+
+export interface CacheEntry<T> {
+  value: T;
+  /** ETag of the response the value came from */
+  etag: string | null;
+  /** Whether the entry is within its TTL */
+  fresh: boolean;
+}
+
+export class ResponseCache<T> {
+  private entries = new Map<string, { value: T; etag: string | null; storedAt: number }>();
+  private ttl: number;
+  private maxEntries: number;
+
+  constructor(options: CacheOptions = {}) {
+    this.ttl = (options.ttl ?? 300) * 1000;
+    this.maxEntries = options.maxEntries ?? 1000;
+  }
+
+  get(key: string): CacheEntry<T> | null {
+    const entry = this.entries.get(key);
+    if (!entry) return null;
+    return {
+      value: entry.value,
+      etag: entry.etag,
+      fresh: Date.now() - entry.storedAt < this.ttl,
+    };
+  }
+
+  set(key: string, value: T, etag: string | null = null): void {
+    // Re-inserting moves the key to the end, keeping Map order oldest-first
+    this.entries.delete(key);
+    this.entries.set(key, { value, etag, storedAt: Date.now() });
+
+    while (this.entries.size > this.maxEntries) {
+      const oldest = this.entries.keys().next().value as string;
+      this.entries.delete(oldest);
+    }
+  }
+
+  delete(key: string): void {
+    this.entries.delete(key);
+  }
+
+  clear(): void {
+    this.entries.clear();
+  }
+}
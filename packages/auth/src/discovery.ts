@@ -0,0 +1,105 @@
+/**
+ * OpenID Connect discovery
+ *
+ * Resolves the OAuth/OIDC endpoints FlowstaAuth talks to. By default they
+ * are derived from `loginUrl` and `apiUrl`; with discovery enabled they are
+ * read from `/.well-known/openid-configuration`. Explicit per-endpoint
+ * overrides always win.
+ */
+
+import { FlowstaAuthError, errorFromResponse, safeFetch } from './errors.js';
+
+// ── Types ──────────────────────────────────────────────────────────
+
+/** The endpoints used by FlowstaAuth */
+export interface FlowstaEndpoints {
+  /** Where users are sent to log in. Default: `${loginUrl}/login` */
+  authorization: string;
+  /** Code and refresh-token exchange. Default: `${apiUrl}/oauth/token` */
+  token: string;
+  /** User profile. Default: `${apiUrl}/oauth/userinfo` */
+  userinfo: string;
+  /** Token revocation (RFC 7009). Default: `${apiUrl}/oauth/revoke` */
+  revocation: string;
+  /** JSON Web Key Set for ID token signatures. Default: `${apiUrl}/.well-known/jwks.json` */
+  jwks: string;
+  /** RP-initiated logout. Default: `${loginUrl}/logout` */
+  endSession: string;
+}
+
+/** The subset of an OpenID Provider Metadata document FlowstaAuth uses */
+export interface OpenIdConfiguration {
+  issuer: string;
+  authorization_endpoint?: string;
+  token_endpoint?: string;
+  userinfo_endpoint?: string;
+  revocation_endpoint?: string;
+  jwks_uri?: string;
+  end_session_endpoint?: string;
+  scopes_supported?: string[];
+  [field: string]: unknown;
+}
+
+// ── Discovery ──────────────────────────────────────────────────────
+
+/** How long a discovery document is reused (1 hour) */
+const DISCOVERY_CACHE_TTL = 60 * 60 * 1000;
+
+/** Discovery documents shared by every FlowstaAuth instance in the page */
+const discoveryCache = new Map<string, { fetchedAt: number; config: Promise<OpenIdConfiguration> }>();
+
+/**
+ * Fetch an OpenID Provider Metadata document.
+ * Results (including in-flight requests) are cached per URL for an hour.
+ */
+export function fetchOpenIdConfiguration(url: string): Promise<OpenIdConfiguration> {
+  const cached = discoveryCache.get(url);
+  if (cached && Date.now() - cached.fetchedAt < DISCOVERY_CACHE_TTL) {
+    return cached.config;
+  }
+
+  const config = (async () => {
+    const response = await safeFetch(url);
+    if (!response.ok) {
+      throw await errorFromResponse(response, 'request_failed', 'Failed to load OpenID configuration');
+    }
+    const data = await response.json();
+    if (typeof data.issuer !== 'string') {
+      throw new FlowstaAuthError('OpenID configuration has no issuer', 'request_failed');
+    }
+    return data as OpenIdConfiguration;
+  })();
+
+  discoveryCache.set(url, { fetchedAt: Date.now(), config });
+  // Don't cache failures
+  config.catch(() => discoveryCache.delete(url));
+  return config;
+}
+
+/** Endpoints derived from the login and API URLs */
+export function defaultEndpoints(loginUrl: string, apiUrl: string): FlowstaEndpoints {
+  return {
+    authorization: `${loginUrl}/login`,
+    token: `${apiUrl}/oauth/token`,
+    userinfo: `${apiUrl}/oauth/userinfo`,
+    revocation: `${apiUrl}/oauth/revoke`,
+    jwks: `${apiUrl}/.well-known/jwks.json`,
+    endSession: `${loginUrl}/logout`,
+  };
+}
+
+/** Endpoints advertised by a discovery document (missing ones are omitted) */
+export function discoveredEndpoints(config: OpenIdConfiguration): Partial<FlowstaEndpoints> {
+  const endpoints: Partial<FlowstaEndpoints> = {
+    authorization: config.authorization_endpoint,
+    token: config.token_endpoint,
+    userinfo: config.userinfo_endpoint,
+    revocation: config.revocation_endpoint,
+    jwks: config.jwks_uri,
+    endSession: config.end_session_endpoint,
+  };
+  for (const key of Object.keys(endpoints) as Array<keyof FlowstaEndpoints>) {
+    if (!endpoints[key]) delete endpoints[key];
+  }
+  return endpoints;
+}
@@ -0,0 +1,294 @@
+/**
+ * Error classes for @flowsta/auth
+ *
+ * Every error thrown by FlowstaAuth is a `FlowstaAuthError` with a stable
+ * `code`, so callers can branch on `error.code` (or `instanceof`) instead
+ * of matching messages.
+ *
+ * @example
+ * ```typescript
+ * import { FlowstaAuthError } from '@flowsta/auth';
+ *
+ * try {
+ *   await auth.handleCallback();
+ * } catch (error) {
+ *   if (error instanceof FlowstaAuthError && error.code === 'access_denied') {
+ *     showMessage('You cancelled the login.');
+ *   }
+ * }
+ * ```
+ */
+
+// ── Error Codes ────────────────────────────────────────────────────
+
+export type FlowstaAuthErrorCode =
+  /** The OAuth state did not match the stored one (possible CSRF) */
+  | 'invalid_state'
+  /** The PKCE code verifier for this login was not found */
+  | 'missing_verifier'
+  /** The callback URL did not contain an authorization code */
+  | 'missing_code'
+  /** login.flowsta.com returned an OAuth error */
+  | 'authorization_failed'
+  /** Exchanging the authorization code for tokens failed */
+  | 'token_exchange_failed'
+  /** Refreshing the access token failed */
+  | 'token_refresh_failed'
+  /** Fetching /oauth/userinfo failed */
+  | 'userinfo_failed'
+  /** The ID token failed signature, issuer, audience, expiry or nonce checks */
+  | 'invalid_id_token'
+  /** A string is not a Holochain agent public key (uhCAk...) */
+  | 'invalid_agent_key'
+  /** A signature proof bundle is malformed or of an unknown version */
+  | 'invalid_proof_bundle'
+  /** A profile update was empty, or rejected (`ProfileValidationError`; see `fields`) */
+  | 'invalid_profile'
+  /** No session, or the API rejected the access token */
+  | 'not_authenticated'
+  /** The user has to log in or consent interactively */
+  | 'login_required'
+  /** The user or the API denied access */
+  | 'access_denied'
+  /** The session lacks a scope the operation requires; see `scopes` */
+  | 'missing_scope'
+  /** Too many requests; see `retryAfter` */
+  | 'rate_limited'
+  /** The request never reached the server */
+  | 'network_error'
+  /** The browser blocked the login popup */
+  | 'popup_blocked'
+  /** The user closed the login popup */
+  | 'popup_closed'
+  /** Login popup or silent authentication timed out */
+  | 'timeout'
+  /** Any other failed API request */
+  | 'request_failed';
+
+export interface FlowstaAuthErrorDetails {
+  /** HTTP status code of the failed response */
+  status?: number;
+  /** OAuth `error` value (e.g. 'invalid_grant') */
+  oauthError?: string;
+  /** OAuth `error_description` value */
+  errorDescription?: string;
+}
+
+/** Why one field of a profile update was rejected */
+export interface ProfileFieldError {
+  field: 'displayName' | 'username' | 'profilePicture';
+  /** Stable reason, e.g. 'required', 'invalid_url', 'taken' */
+  code: string;
+  message: string;
+}
+
+// ── Error Classes ──────────────────────────────────────────────────
+
+export class FlowstaAuthError extends Error {
+  /** HTTP status code of the failed response */
+  public status?: number;
+  /** OAuth `error` value (e.g. 'invalid_grant') */
+  public oauthError?: string;
+  /** OAuth `error_description` value */
+  public errorDescription?: string;
+
+  constructor(
+    message: string,
+    public code: FlowstaAuthErrorCode,
+    details: FlowstaAuthErrorDetails = {},
+  ) {
+    super(message);
+    this.name = 'FlowstaAuthError';
+    this.status = details.status;
+    this.oauthError = details.oauthError;
+    this.errorDescription = details.errorDescription;
+  }
+}
+
+export class InvalidStateError extends FlowstaAuthError {
+  constructor() {
+    super('Invalid state parameter - possible CSRF attack', 'invalid_state');
+    this.name = 'InvalidStateError';
+  }
+}
+
+export class MissingVerifierError extends FlowstaAuthError {
+  constructor() {
+    super('Missing PKCE code verifier', 'missing_verifier');
+    this.name = 'MissingVerifierError';
+  }
+}
+
+export class NotAuthenticatedError extends FlowstaAuthError {
+  constructor(details?: FlowstaAuthErrorDetails) {
+    super('Not authenticated', 'not_authenticated', details);
+    this.name = 'NotAuthenticatedError';
+  }
+}
+
+export class LoginRequiredError extends FlowstaAuthError {
+  constructor(details?: FlowstaAuthErrorDetails) {
+    super(details?.errorDescription || 'Login required', 'login_required', details);
+    this.name = 'LoginRequiredError';
+  }
+}
+
+export class AccessDeniedError extends FlowstaAuthError {
+  constructor(message?: string, details?: FlowstaAuthErrorDetails) {
+    super(message || 'Access denied', 'access_denied', details);
+    this.name = 'AccessDeniedError';
+  }
+}
+
+export class MissingScopeError extends FlowstaAuthError {
+  constructor(
+    /** The scopes that were not granted */
+    public scopes: string[],
+    details?: FlowstaAuthErrorDetails,
+  ) {
+    super(
+      scopes.length > 0 ? `Missing required scope: ${scopes.join(', ')}` : 'Missing required scope',
+      'missing_scope',
+      details,
+    );
+    this.name = 'MissingScopeError';
+  }
+}
+
+export class ProfileValidationError extends FlowstaAuthError {
+  constructor(
+    /** The rejected fields */
+    public fields: ProfileFieldError[],
+    details?: FlowstaAuthErrorDetails,
+  ) {
+    super(
+      fields.length > 0 ? fields.map((field) => field.message).join('; ') : 'Invalid profile update',
+      'invalid_profile',
+      details,
+    );
+    this.name = 'ProfileValidationError';
+  }
+}
+
+export class RateLimitedError extends FlowstaAuthError {
+  constructor(
+    message?: string,
+    /** Seconds to wait before retrying (from the Retry-After header) */
+    public retryAfter?: number,
+    details?: FlowstaAuthErrorDetails,
+  ) {
+    super(message || 'Too many requests. Try again later.', 'rate_limited', { status: 429, ...details });
+    this.name = 'RateLimitedError';
+  }
+}
+
+export class NetworkError extends FlowstaAuthError {
+  constructor(public cause?: unknown) {
+    super('Could not reach Flowsta. Check internet connection.', 'network_error');
+    this.name = 'NetworkError';
+  }
+}
+
+export class PopupBlockedError extends FlowstaAuthError {
+  constructor() {
+    super('Login popup was blocked by the browser', 'popup_blocked');
+    this.name = 'PopupBlockedError';
+  }
+}
+
+export class PopupClosedError extends FlowstaAuthError {
+  constructor() {
+    super('Login popup was closed before authentication completed', 'popup_closed');
+    this.name = 'PopupClosedError';
+  }
+}
+
+// ── Helpers ────────────────────────────────────────────────────────
+
+/** OAuth errors meaning the user must interact with login.flowsta.com */
+const INTERACTION_REQUIRED_ERRORS = [
+  'login_required',
+  'consent_required',
+  'interaction_required',
+  'account_selection_required',
+];
+
+/** Whether an OAuth `error` value means the user must log in interactively */
+export function isInteractionRequired(error: string): boolean {
+  return INTERACTION_REQUIRED_ERRORS.includes(error);
+}
+
+/**
+ * Map an OAuth error returned to the redirect URI (`?error=...`) to a typed error
+ */
+export function authorizationError(error: string, description?: string | null): FlowstaAuthError {
+  const details = { oauthError: error, errorDescription: description || undefined };
+  if (error === 'access_denied') return new AccessDeniedError(description || undefined, details);
+  if (isInteractionRequired(error)) return new LoginRequiredError(details);
+  return new FlowstaAuthError(description || error, 'authorization_failed', details);
+}
+
+/**
+ * Build a typed error from a failed HTTP response.
+ *
+ * Reads OAuth (`error`, `error_description`) and API (`message`) error
+ * bodies, and maps 401, 403, 429 and `insufficient_scope` to their
+ * dedicated classes.
+ *
+ * @param code Code to use when the status has no dedicated class
+ * @param fallbackMessage Message to use when the body has none
+ */
+export async function errorFromResponse(
+  response: Response,
+  code: FlowstaAuthErrorCode,
+  fallbackMessage: string,
+): Promise<FlowstaAuthError> {
+  const body = await response.clone().json().catch(() => null);
+  // Valid JSON is not necessarily an object (`null`, a string, an array)
+  const data = body && typeof body === 'object' ? body : {};
+  const details: FlowstaAuthErrorDetails = {
+    status: response.status,
+    oauthError: typeof data.error === 'string' ? data.error : undefined,
+    errorDescription: data.error_description,
+  };
+  const message = data.error_description || data.message || details.oauthError || fallbackMessage;
+
+  if (response.status === 429) {
+    return new RateLimitedError(message, parseRetryAfter(response.headers.get('Retry-After')), details);
+  }
+  if (details.oauthError === 'insufficient_scope') {
+    const scope = typeof data.scope === 'string' ? data.scope : '';
+    return new MissingScopeError(scope.split(' ').filter(Boolean), details);
+  }
+  if (response.status === 403 || details.oauthError === 'access_denied') {
+    return new AccessDeniedError(message, details);
+  }
+  // The OAuth endpoints answer 401 for a bad client or code, not a missing session
+  if (response.status === 401 && code === 'request_failed') {
+    return new NotAuthenticatedError(details);
+  }
+  return new FlowstaAuthError(message, code, details);
+}
+
+/**
+ * `fetch` that reports connection failures as `NetworkError`.
+ * Aborts (AbortSignal) are rethrown unchanged.
+ */
+export async function safeFetch(input: RequestInfo | URL, init?: RequestInit): Promise<Response> {
+  try {
+    return await fetch(input, init);
+  } catch (error) {
+    if ((error as Error)?.name === 'AbortError') throw error;
+    throw new NetworkError(error);
+  }
+}
+
+/** Parse a Retry-After header (seconds or HTTP date) into seconds */
+export function parseRetryAfter(header: string | null): number | undefined {
+  if (!header) return undefined;
+  const seconds = Number(header);
+  if (Number.isFinite(seconds)) return Math.max(seconds, 0);
+  const date = Date.parse(header);
+  if (Number.isNaN(date)) return undefined;
+  return Math.max(Math.ceil((date - Date.now()) / 1000), 0);
+}
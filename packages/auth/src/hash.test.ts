@@ -0,0 +1,106 @@
+import { createHash, randomBytes } from 'node:crypto';
+import { mkdtemp, rm, writeFile } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { describe, expect, it } from 'vitest';
+import { Sha256, hashBlob, hashContent, type HashProgress } from './hash.js';
+
+const sha256 = (data: Uint8Array | string) => createHash('sha256').update(data).digest('hex');
+
+describe('Sha256', () => {
+  it('matches the FIPS 180-2 test vectors', () => {
+    expect(new Sha256().hex()).toBe('e3b0c44298fc1c149afbf4c8996fb92427ae41e4649b934ca495991b7852b855');
+    expect(new Sha256().update(new TextEncoder().encode('abc')).hex()).toBe(
+      'ba7816bf8f01cfea414140de5dae2223b00361a396177a9cb410ff61f20015ad',
+    );
+    expect(
+      new Sha256().update(new TextEncoder().encode('abcdbcdecdefdefgefghfghighijhijkijkljklmklmnlmnomnopnopq')).hex(),
+    ).toBe('248d6a61d20638b8e5c026930c3e6039a33ce45964ff2167f6ecedd419db06c1');
+  });
+
+  it('matches node:crypto around block and padding boundaries', () => {
+    for (const size of [1, 55, 56, 63, 64, 65, 119, 120, 128, 1000]) {
+      const data = randomBytes(size);
+      expect(new Sha256().update(data).hex(), `${size} bytes`).toBe(sha256(data));
+    }
+  });
+
+  it('gives the same hash however the input is split', () => {
+    const data = randomBytes(4099);
+    const hasher = new Sha256();
+    for (const [start, end] of [[0, 1], [1, 63], [63, 200], [200, 4000], [4000, 4099]]) {
+      hasher.update(data.subarray(start, end));
+    }
+    expect(hasher.hex()).toBe(sha256(data));
+  });
+});
+
+describe('hashContent', () => {
+  const data = randomBytes(10_000);
+  const expected = sha256(data);
+
+  it('hashes buffers and views', async () => {
+    expect(await hashContent(data)).toBe(expected);
+    expect(await hashContent(new Uint8Array(data).buffer)).toBe(expected);
+
+    // A view into a larger buffer hashes only its own bytes
+    const padded = new Uint8Array(data.length + 16);
+    padded.set(data, 8);
+    expect(await hashContent(new DataView(padded.buffer, 8, data.length))).toBe(expected);
+  });
+
+  it('hashes strings as UTF-8', async () => {
+    expect(await hashContent('Grüße, 世界')).toBe(sha256('Grüße, 世界'));
+  });
+
+  it('hashes blobs, streams and async iterables', async () => {
+    const blob = new Blob([data]);
+    expect(await hashContent(blob)).toBe(expected);
+    expect(await hashBlob(blob)).toBe(expected);
+    expect(await hashContent(blob.stream())).toBe(expected);
+
+    async function* chunks() {
+      for (let offset = 0; offset < data.length; offset += 999) {
+        yield data.subarray(offset, offset + 999);
+      }
+    }
+    expect(await hashContent(chunks())).toBe(expected);
+  });
+
+  it('hashes files by path', async () => {
+    const dir = await mkdtemp(join(tmpdir(), 'flowsta-hash-'));
+    try {
+      const path = join(dir, 'file.bin');
+      await writeFile(path, data);
+      expect(await hashContent({ path })).toBe(expected);
+    } finally {
+      await rm(dir, { recursive: true, force: true });
+    }
+  });
+
+  it('reports progress up to the total size', async () => {
+    const progress: HashProgress[] = [];
+    await hashContent(new Blob([data]), { onProgress: (p) => progress.push(p) });
+
+    expect(progress.length).toBeGreaterThan(0);
+    expect(progress.at(-1)).toEqual({ bytesHashed: data.length, totalBytes: data.length });
+  });
+
+  it('rejects when aborted', async () => {
+    const controller = new AbortController();
+    controller.abort();
+    await expect(hashContent(data, { signal: controller.signal })).rejects.toThrow();
+
+    const midway = new AbortController();
+    async function* slow() {
+      yield data.subarray(0, 10);
+      midway.abort();
+      yield data.subarray(10);
+    }
+    await expect(hashContent(slow(), { signal: midway.signal })).rejects.toThrow();
+  });
+
+  it('rejects unsupported input', async () => {
+    await expect(hashContent(42 as never)).rejects.toThrow(TypeError);
+  });
+});
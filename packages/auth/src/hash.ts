@@ -0,0 +1,349 @@
+/**
+ * Incremental SHA-256 for Sign It
+ *
+ * SubtleCrypto can only digest a whole buffer at once, which means holding
+ * the entire file in memory. This hasher consumes data chunk by chunk, so
+ * multi-gigabyte files can be hashed with constant memory. It has no DOM
+ * dependencies and runs unchanged in Web Workers and Node.
+ *
+ * Digests are identical to `crypto.subtle.digest('SHA-256', ...)`.
+ */
+
+// ── Types ──────────────────────────────────────────────────────────
+
+export interface HashProgress {
+  /** Bytes hashed so far */
+  bytesHashed: number;
+  /** Total bytes to hash, if known */
+  totalBytes?: number;
+}
+
+export interface HashOptions {
+  /** Called after each chunk is hashed */
+  onProgress?: (progress: HashProgress) => void;
+  /** Cancels hashing; the promise rejects with the signal's reason */
+  signal?: AbortSignal;
+}
+
+// ── SHA-256 ────────────────────────────────────────────────────────
+
+/** SHA-256 round constants */
+const K = new Uint32Array([
+  0x428a2f98, 0x71374491, 0xb5c0fbcf, 0xe9b5dba5, 0x3956c25b, 0x59f111f1, 0x923f82a4, 0xab1c5ed5,
+  0xd807aa98, 0x12835b01, 0x243185be, 0x550c7dc3, 0x72be5d74, 0x80deb1fe, 0x9bdc06a7, 0xc19bf174,
+  0xe49b69c1, 0xefbe4786, 0x0fc19dc6, 0x240ca1cc, 0x2de92c6f, 0x4a7484aa, 0x5cb0a9dc, 0x76f988da,
+  0x983e5152, 0xa831c66d, 0xb00327c8, 0xbf597fc7, 0xc6e00bf3, 0xd5a79147, 0x06ca6351, 0x14292967,
+  0x27b70a85, 0x2e1b2138, 0x4d2c6dfc, 0x53380d13, 0x650a7354, 0x766a0abb, 0x81c2c92e, 0x92722c85,
+  0xa2bfe8a1, 0xa81a664b, 0xc24b8b70, 0xc76c51a3, 0xd192e819, 0xd6990624, 0xf40e3585, 0x106aa070,
+  0x19a4c116, 0x1e376c08, 0x2748774c, 0x34b0bcb5, 0x391c0cb3, 0x4ed8aa4a, 0x5b9cca4f, 0x682e6ff3,
+  0x748f82ee, 0x78a5636f, 0x84c87814, 0x8cc70208, 0x90befffa, 0xa4506ceb, 0xbef9a3f7, 0xc67178f2,
+]);
+
+/**
+ * Incremental SHA-256 hasher.
+ *
+ * @example
+ * ```typescript
+ * const hasher = new Sha256();
+ * for await (const chunk of stream) hasher.update(chunk);
+ * const hash = hasher.hex();
+ * ```
+ */
+export class Sha256 {
+  private state = new Uint32Array([
+    0x6a09e667, 0xbb67ae85, 0x3c6ef372, 0xa54ff53a, 0x510e527f, 0x9b05688c, 0x1f83d9ab, 0x5be0cd19,
+  ]);
+  private block = new Uint8Array(64);
+  private blockLength = 0;
+  private bytesHashed = 0;
+  private w = new Uint32Array(64);
+  private finished = false;
+
+  /** Add data to the hash */
+  update(data: Uint8Array): this {
+    if (this.finished) {
+      throw new Error('Sha256: update() called after digest()');
+    }
+
+    let offset = 0;
+    this.bytesHashed += data.length;
+
+    // Fill a partially filled block first
+    if (this.blockLength > 0) {
+      const take = Math.min(64 - this.blockLength, data.length);
+      this.block.set(data.subarray(0, take), this.blockLength);
+      this.blockLength += take;
+      offset = take;
+      if (this.blockLength < 64) return this;
+      this.compress(this.block, 0);
+      this.blockLength = 0;
+    }
+
+    // Whole blocks straight from the input
+    while (data.length - offset >= 64) {
+      this.compress(data, offset);
+      offset += 64;
+    }
+
+    // Keep the remainder for the next update
+    if (offset < data.length) {
+      this.block.set(data.subarray(offset), 0);
+      this.blockLength = data.length - offset;
+    }
+    return this;
+  }
+
+  /** Finish and return the 32-byte digest */
+  digest(): Uint8Array {
+    if (!this.finished) {
+      this.finished = true;
+      const bitLength = this.bytesHashed * 8;
+
+      this.block[this.blockLength++] = 0x80;
+      if (this.blockLength > 56) {
+        this.block.fill(0, this.blockLength);
+        this.compress(this.block, 0);
+        this.blockLength = 0;
+      }
+      this.block.fill(0, this.blockLength);
+
+      // 64-bit big-endian message length (exact up to 2^53 bits)
+      const high = Math.floor(bitLength / 0x100000000);
+      const low = bitLength >>> 0;
+      this.block[56] = high >>> 24;
+      this.block[57] = high >>> 16;
+      this.block[58] = high >>> 8;
+      this.block[59] = high;
+      this.block[60] = low >>> 24;
+      this.block[61] = low >>> 16;
+      this.block[62] = low >>> 8;
+      this.block[63] = low;
+      this.compress(this.block, 0);
+    }
+
+    const out = new Uint8Array(32);
+    for (let i = 0; i < 8; i++) {
+      out[i * 4] = this.state[i] >>> 24;
+      out[i * 4 + 1] = this.state[i] >>> 16;
+      out[i * 4 + 2] = this.state[i] >>> 8;
+      out[i * 4 + 3] = this.state[i];
+    }
+    return out;
+  }
+
+  /** Finish and return the digest as lowercase hex (64 characters) */
+  hex(): string {
+    return toHex(this.digest());
+  }
+
+  private compress(data: Uint8Array, offset: number): void {
+    const w = this.w;
+    for (let i = 0; i < 16; i++) {
+      const j = offset + i * 4;
+      w[i] = (data[j] << 24) | (data[j + 1] << 16) | (data[j + 2] << 8) | data[j + 3];
+    }
+    for (let i = 16; i < 64; i++) {
+      const w15 = w[i - 15];
+      const w2 = w[i - 2];
+      const s0 = ((w15 >>> 7) | (w15 << 25)) ^ ((w15 >>> 18) | (w15 << 14)) ^ (w15 >>> 3);
+      const s1 = ((w2 >>> 17) | (w2 << 15)) ^ ((w2 >>> 19) | (w2 << 13)) ^ (w2 >>> 10);
+      w[i] = (w[i - 16] + s0 + w[i - 7] + s1) | 0;
+    }
+
+    const state = this.state;
+    let a = state[0], b = state[1], c = state[2], d = state[3];
+    let e = state[4], f = state[5], g = state[6], h = state[7];
+
+    for (let i = 0; i < 64; i++) {
+      const S1 = ((e >>> 6) | (e << 26)) ^ ((e >>> 11) | (e << 21)) ^ ((e >>> 25) | (e << 7));
+      const ch = (e & f) ^ (~e & g);
+      const t1 = (h + S1 + ch + K[i] + w[i]) | 0;
+      const S0 = ((a >>> 2) | (a << 30)) ^ ((a >>> 13) | (a << 19)) ^ ((a >>> 22) | (a << 10));
+      const maj = (a & b) ^ (a & c) ^ (b & c);
+      const t2 = (S0 + maj) | 0;
+      h = g;
+      g = f;
+      f = e;
+      e = (d + t1) | 0;
+      d = c;
+      c = b;
+      b = a;
+      a = (t1 + t2) | 0;
+    }
+
+    state[0] += a;
+    state[1] += b;
+    state[2] += c;
+    state[3] += d;
+    state[4] += e;
+    state[5] += f;
+    state[6] += g;
+    state[7] += h;
+  }
+}
+
+// ── Content Hashing ────────────────────────────────────────────────
+
+/** Anything `hashContent()` can hash */
+export type HashInput =
+  | Blob
+  | ArrayBuffer
+  | ArrayBufferView
+  | ReadableStream<Uint8Array>
+  | AsyncIterable<Uint8Array>
+  | string
+  | { path: string };
+
+/** Size of the slices buffers are hashed in, between progress reports */
+const BUFFER_CHUNK_SIZE = 4 * 1024 * 1024;
+
+/**
+ * SHA-256 hex hash of any content, with the same result in browsers,
+ * workers and Node: hashing a file's bytes gives the same hash as
+ * `hashFile()` on that file in the browser.
+ *
+ * @example
+ * ```typescript
+ * import { hashContent } from '@flowsta/auth';
+ *
+ * await hashContent(file);                          // Blob / File
+ * await hashContent(buffer);                        // ArrayBuffer, Uint8Array, Node Buffer
+ * await hashContent(response.body!);                // ReadableStream
+ * await hashContent(fs.createReadStream('a.mp4'));  // Node stream (any async iterable)
+ * await hashContent('Hello, world');                // string (UTF-8)
+ * await hashContent({ path: './master.mov' });      // file path (Node only)
+ * ```
+ */
+export function hashContent(input: Blob, options?: HashOptions): Promise<string>;
+export function hashContent(input: ArrayBuffer | ArrayBufferView, options?: HashOptions): Promise<string>;
+export function hashContent(input: ReadableStream<Uint8Array>, options?: HashOptions): Promise<string>;
+export function hashContent(input: AsyncIterable<Uint8Array>, options?: HashOptions): Promise<string>;
+/** Hashes the UTF-8 encoding of `input` (not a file path; use `{ path }` for that) */
+export function hashContent(input: string, options?: HashOptions): Promise<string>;
+/** Hashes the file at `path`. Node only */
+export function hashContent(input: { path: string }, options?: HashOptions): Promise<string>;
+export function hashContent(input: HashInput, options?: HashOptions): Promise<string>;
+export async function hashContent(input: HashInput, options: HashOptions = {}): Promise<string> {
+  if (typeof input === 'string') {
+    return hashBytes(new TextEncoder().encode(input), options);
+  }
+  if (typeof Blob !== 'undefined' && input instanceof Blob) {
+    return hashBlob(input, options);
+  }
+  if (input instanceof ArrayBuffer) {
+    return hashBytes(new Uint8Array(input), options);
+  }
+  if (ArrayBuffer.isView(input)) {
+    return hashBytes(new Uint8Array(input.buffer, input.byteOffset, input.byteLength), options);
+  }
+  if (typeof ReadableStream !== 'undefined' && input instanceof ReadableStream) {
+    return hashChunks(readStream(input, options.signal), undefined, options);
+  }
+  if (Symbol.asyncIterator in input) {
+    return hashChunks(input, undefined, options);
+  }
+  if ('path' in input && typeof input.path === 'string') {
+    return hashPath(input.path, options);
+  }
+  throw new TypeError('hashContent: unsupported input');
+}
+
+/**
+ * Hash a Blob (or File) chunk by chunk via `Blob.stream()`.
+ * Memory use stays constant regardless of the blob's size.
+ */
+export async function hashBlob(blob: Blob, options: HashOptions = {}): Promise<string> {
+  return hashChunks(readStream(blob.stream(), options.signal), blob.size, options);
+}
+
+/** Hash an in-memory buffer in slices, so progress and aborts still work */
+function hashBytes(bytes: Uint8Array, options: HashOptions): Promise<string> {
+  function* slices() {
+    for (let offset = 0; offset < bytes.length; offset += BUFFER_CHUNK_SIZE) {
+      yield bytes.subarray(offset, offset + BUFFER_CHUNK_SIZE);
+    }
+  }
+  return hashChunks(slices(), bytes.length, options);
+}
+
+/** Minimal `node:fs` surface used by hashPath */
+interface NodeFs {
+  createReadStream(path: string): AsyncIterable<Uint8Array> & { destroy(): void };
+  promises: { stat(path: string): Promise<{ size: number }> };
+}
+
+/** Hash a file on disk (Node only) */
+async function hashPath(path: string, options: HashOptions): Promise<string> {
+  // Kept out of reach of browser bundlers
+  const moduleName = 'node:fs';
+  let fs: NodeFs;
+  try {
+    fs = await import(/* @vite-ignore */ /* webpackIgnore: true */ moduleName);
+  } catch {
+    throw new TypeError('hashContent({ path }) is only supported in Node');
+  }
+
+  const { size } = await fs.promises.stat(path);
+  const stream = fs.createReadStream(path);
+  try {
+    return await hashChunks(stream, size, options);
+  } finally {
+    stream.destroy();
+  }
+}
+
+async function hashChunks(
+  chunks: Iterable<Uint8Array> | AsyncIterable<Uint8Array>,
+  totalBytes: number | undefined,
+  options: HashOptions,
+): Promise<string> {
+  const { onProgress, signal } = options;
+  throwIfAborted(signal);
+
+  const hasher = new Sha256();
+  let bytesHashed = 0;
+
+  for await (const chunk of chunks) {
+    throwIfAborted(signal);
+    hasher.update(chunk);
+    bytesHashed += chunk.length;
+    onProgress?.({ bytesHashed, totalBytes });
+  }
+
+  return hasher.hex();
+}
+
+/** Read a stream chunk by chunk, cancelling it when `signal` aborts */
+async function* readStream(stream: ReadableStream<Uint8Array>, signal?: AbortSignal): AsyncGenerator<Uint8Array> {
+  const reader = stream.getReader();
+  const onAbort = () => {
+    reader.cancel(signal?.reason).catch(() => {});
+  };
+  signal?.addEventListener('abort', onAbort, { once: true });
+
+  try {
+    for (;;) {
+      const { done, value } = await reader.read();
+      throwIfAborted(signal);
+      if (done) return;
+      yield value;
+    }
+  } finally {
+    signal?.removeEventListener('abort', onAbort);
+    reader.releaseLock();
+  }
+}
+
+// ── Helpers ────────────────────────────────────────────────────────
+
+export function toHex(bytes: Uint8Array): string {
+  return Array.from(bytes)
+    .map((b) => b.toString(16).padStart(2, '0'))
+    .join('');
+}
+
+function throwIfAborted(signal?: AbortSignal): void {
+  if (signal?.aborted) {
+    throw signal.reason ?? new DOMException('The operation was aborted.', 'AbortError');
+  }
+}
@@ -0,0 +1,172 @@
+import { afterEach, beforeAll, describe, expect, it, vi } from 'vitest';
+import { JwksCache, base64UrlDecode, decodeJwtClaims, validateIdToken, type IdTokenClaims } from './idToken.js';
+
+const ISSUER = 'https://auth-api.flowsta.com';
+const CLIENT_ID = 'client_123';
+const JWKS_URI = `${ISSUER}/.well-known/jwks.json`;
+
+const encoder = new TextEncoder();
+
+function base64Url(data: Uint8Array | string): string {
+  const bytes = typeof data === 'string' ? encoder.encode(data) : data;
+  return btoa(String.fromCharCode(...bytes)).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+}
+
+interface SigningKey {
+  kid: string;
+  privateKey: CryptoKey;
+  jwk: JsonWebKey & { kid: string };
+}
+
+async function createKey(kid: string): Promise<SigningKey> {
+  const pair = (await crypto.subtle.generateKey({ name: 'ECDSA', namedCurve: 'P-256' }, true, ['sign', 'verify'])) as CryptoKeyPair;
+  const jwk = await crypto.subtle.exportKey('jwk', pair.publicKey);
+  return { kid, privateKey: pair.privateKey, jwk: { ...jwk, kid, alg: 'ES256', use: 'sig' } };
+}
+
+async function sign(key: SigningKey, claims: Record<string, unknown>, header: Record<string, unknown> = {}): Promise<string> {
+  const input = `${base64Url(JSON.stringify({ alg: 'ES256', typ: 'JWT', kid: key.kid, ...header }))}.${base64Url(JSON.stringify(claims))}`;
+  const signature = await crypto.subtle.sign({ name: 'ECDSA', hash: 'SHA-256' }, key.privateKey, encoder.encode(input));
+  return `${input}.${base64Url(new Uint8Array(signature))}`;
+}
+
+function claims(overrides: Partial<IdTokenClaims> = {}): IdTokenClaims {
+  const now = Math.floor(Date.now() / 1000);
+  return { iss: ISSUER, sub: 'user_1', aud: CLIENT_ID, exp: now + 3600, iat: now, nonce: 'n-1', ...overrides };
+}
+
+/** Serve `keys` as the JWKS and count the requests */
+function serveJwks(keys: () => JsonWebKey[]) {
+  const fetch = vi.fn(async () => new Response(JSON.stringify({ keys: keys() }), { status: 200 }));
+  vi.stubGlobal('fetch', fetch);
+  return fetch;
+}
+
+const options = { issuer: ISSUER, clientId: CLIENT_ID, nonce: 'n-1' };
+
+let key: SigningKey;
+
+beforeAll(async () => {
+  key = await createKey('key-1');
+});
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+  vi.useRealTimers();
+});
+
+describe('validateIdToken', () => {
+  it('returns the claims of a valid token', async () => {
+    serveJwks(() => [key.jwk]);
+    const token = await sign(key, claims());
+
+    await expect(validateIdToken(token, new JwksCache(JWKS_URI), options)).resolves.toMatchObject({
+      sub: 'user_1',
+      nonce: 'n-1',
+    });
+  });
+
+  it.each([
+    ['issuer', claims({ iss: 'https://evil.example' }), /issuer/],
+    ['audience', claims({ aud: 'other_client' }), /audience/],
+    ['authorized party', claims({ aud: [CLIENT_ID, 'other_client'], azp: 'other_client' }), /authorized party/],
+    ['expiry', claims({ exp: Math.floor(Date.now() / 1000) - 120 }), /expired/],
+    ['issue time', claims({ iat: Math.floor(Date.now() / 1000) + 120 }), /future/],
+    ['nonce', claims({ nonce: 'replayed' }), /nonce/],
+  ])('rejects a token with the wrong %s', async (_name, tokenClaims, message) => {
+    serveJwks(() => [key.jwk]);
+    const token = await sign(key, tokenClaims);
+
+    await expect(validateIdToken(token, new JwksCache(JWKS_URI), options)).rejects.toMatchObject({
+      code: 'invalid_id_token',
+      message: expect.stringMatching(message),
+    });
+  });
+
+  it('accepts claims within the clock tolerance', async () => {
+    serveJwks(() => [key.jwk]);
+    const token = await sign(key, claims({ exp: Math.floor(Date.now() / 1000) - 30 }));
+
+    await expect(validateIdToken(token, new JwksCache(JWKS_URI), options)).resolves.toBeDefined();
+  });
+
+  it('rejects a tampered payload', async () => {
+    serveJwks(() => [key.jwk]);
+    const [header, , signature] = (await sign(key, claims())).split('.');
+    const forged = `${header}.${base64Url(JSON.stringify(claims({ sub: 'admin' })))}.${signature}`;
+
+    await expect(validateIdToken(forged, new JwksCache(JWKS_URI), options)).rejects.toThrow(/signature/);
+  });
+
+  it('rejects a token signed by a key that is not in the set', async () => {
+    const other = await createKey('key-1');
+    serveJwks(() => [key.jwk]);
+    const token = await sign(other, claims());
+
+    await expect(validateIdToken(token, new JwksCache(JWKS_URI), options)).rejects.toThrow(/signature/);
+  });
+
+  it('rejects unsigned and malformed tokens', async () => {
+    serveJwks(() => [key.jwk]);
+    const jwks = new JwksCache(JWKS_URI);
+    const unsigned = `${base64Url(JSON.stringify({ alg: 'none' }))}.${base64Url(JSON.stringify(claims()))}.`;
+
+    await expect(validateIdToken(unsigned, jwks, options)).rejects.toThrow(/Unsupported/);
+    await expect(validateIdToken('not-a-jwt', jwks, options)).rejects.toThrow(/not a JWT/);
+    await expect(validateIdToken('a.b.c', jwks, options)).rejects.toThrow(/malformed/);
+  });
+});
+
+describe('JwksCache', () => {
+  it('fetches the key set once while it is fresh', async () => {
+    const fetch = serveJwks(() => [key.jwk]);
+    const jwks = new JwksCache(JWKS_URI);
+
+    await jwks.getKey('key-1', 'ES256');
+    await jwks.getKey('key-1', 'ES256');
+
+    expect(fetch).toHaveBeenCalledTimes(1);
+  });
+
+  it('re-fetches once for an unknown key ID, at most every 30 seconds', async () => {
+    vi.useFakeTimers({ toFake: ['Date'] });
+    const rotated = await createKey('key-2');
+    let keys = [key.jwk];
+    const fetch = serveJwks(() => keys);
+    const jwks = new JwksCache(JWKS_URI);
+
+    await jwks.getKey('key-1', 'ES256');
+    await expect(jwks.getKey('key-2', 'ES256')).rejects.toThrow(/No signing key/);
+    expect(fetch).toHaveBeenCalledTimes(1);
+
+    keys = [key.jwk, rotated.jwk];
+    vi.advanceTimersByTime(31 * 1000);
+    await expect(jwks.getKey('key-2', 'ES256')).resolves.toMatchObject({ kid: 'key-2' });
+    expect(fetch).toHaveBeenCalledTimes(2);
+  });
+
+  it('requires a key ID when the set has several keys', async () => {
+    const second = await createKey('key-2');
+    serveJwks(() => [key.jwk, second.jwk]);
+
+    await expect(new JwksCache(JWKS_URI).getKey(undefined, 'ES256')).rejects.toThrow(/No signing key/);
+  });
+
+  it('reports a failed fetch', async () => {
+    vi.stubGlobal('fetch', vi.fn(async () => new Response('', { status: 503 })));
+
+    await expect(new JwksCache(JWKS_URI).getKey('key-1', 'ES256')).rejects.toMatchObject({ status: 503 });
+  });
+});
+
+describe('helpers', () => {
+  it('decodes unpadded base64url', () => {
+    expect([...base64UrlDecode('-_8')]).toEqual([0xfb, 0xff]);
+    expect(new TextDecoder().decode(base64UrlDecode(base64Url('hello')))).toBe('hello');
+  });
+
+  it('decodes claims without verifying', async () => {
+    const token = await sign(key, claims());
+    expect(decodeJwtClaims(token).sub).toBe('user_1');
+  });
+});
@@ -0,0 +1,255 @@
+/**
+ * OpenID Connect ID token validation
+ *
+ * Verifies the JWS signature of an ID token against the issuer's JSON Web
+ * Key Set (fetched once and cached, re-fetched when an unknown key ID shows
+ * up after key rotation) and checks the `iss`, `aud`, `exp`, `iat` and
+ * `nonce` claims. Uses WebCrypto only, so it runs in browsers, workers and
+ * Node 18+.
+ */
+
+import { FlowstaAuthError, errorFromResponse, safeFetch } from './errors.js';
+
+// ── Types ──────────────────────────────────────────────────────────
+
+/** Claims of a validated ID token */
+export interface IdTokenClaims {
+  /** Issuer */
+  iss: string;
+  /** Subject (the user's ID) */
+  sub: string;
+  /** Audience (your client ID) */
+  aud: string | string[];
+  /** Expiry (seconds since epoch) */
+  exp: number;
+  /** Issued at (seconds since epoch) */
+  iat: number;
+  /** The nonce sent with the authorization request */
+  nonce?: string;
+  /** Authorized party */
+  azp?: string;
+  /** When the user authenticated (seconds since epoch) */
+  auth_time?: number;
+  [claim: string]: unknown;
+}
+
+export interface IdTokenValidationOptions {
+  /** Expected `iss` claim */
+  issuer: string;
+  /** Expected audience (your client ID) */
+  clientId: string;
+  /** Expected `nonce` claim. Omit when validating a token from a refresh */
+  nonce?: string;
+  /** Allowed clock skew in seconds. Default: 60 */
+  clockTolerance?: number;
+}
+
+interface JsonWebKeyWithId extends JsonWebKey {
+  kid?: string;
+}
+
+interface JwtHeader {
+  alg: string;
+  kid?: string;
+  typ?: string;
+}
+
+// ── JWKS Cache ─────────────────────────────────────────────────────
+
+/**
+ * Fetches and caches a JSON Web Key Set.
+ *
+ * Keys are cached for `cacheTtl` ms. A token signed with a key ID that is
+ * not in the cache triggers one re-fetch (at most every 30 seconds), which
+ * picks up rotated keys without hammering the endpoint.
+ */
+export class JwksCache {
+  private keys: JsonWebKeyWithId[] = [];
+  private fetchedAt = 0;
+  private pending: Promise<JsonWebKeyWithId[]> | null = null;
+
+  constructor(
+    readonly jwksUri: string,
+    private cacheTtl = 10 * 60 * 1000,
+  ) {}
+
+  /** Find the key for a token, re-fetching the set if the key is unknown */
+  async getKey(kid: string | undefined, alg: string): Promise<JsonWebKeyWithId> {
+    const now = Date.now();
+    if (now - this.fetchedAt > this.cacheTtl) {
+      await this.refresh();
+    }
+
+    let key = this.findKey(kid, alg);
+    if (!key && now - this.fetchedAt > 30 * 1000) {
+      await this.refresh();
+      key = this.findKey(kid, alg);
+    }
+
+    if (!key) {
+      throw new FlowstaAuthError(`No signing key found for kid "${kid ?? ''}"`, 'invalid_id_token');
+    }
+    return key;
+  }
+
+  private findKey(kid: string | undefined, alg: string): JsonWebKeyWithId | undefined {
+    const candidates = this.keys.filter(
+      (k) => (!k.use || k.use === 'sig') && (!k.alg || k.alg === alg),
+    );
+    if (kid) return candidates.find((k) => k.kid === kid);
+    // Without a kid the set must be unambiguous
+    return candidates.length === 1 ? candidates[0] : undefined;
+  }
+
+  private async refresh(): Promise<void> {
+    if (!this.pending) {
+      this.pending = (async () => {
+        const response = await safeFetch(this.jwksUri);
+        if (!response.ok) {
+          throw await errorFromResponse(response, 'request_failed', 'Failed to fetch JWKS');
+        }
+        const data = await response.json();
+        return Array.isArray(data.keys) ? data.keys : [];
+      })().finally(() => {
+        this.pending = null;
+      });
+    }
+
+    this.keys = await this.pending;
+    this.fetchedAt = Date.now();
+  }
+}
+
+// ── Validation ─────────────────────────────────────────────────────
+
+/**
+ * Verify an ID token's signature and claims.
+ *
+ * @returns The validated claims
+ * @throws {FlowstaAuthError} 'invalid_id_token' if any check fails
+ */
+export async function validateIdToken(
+  idToken: string,
+  jwks: JwksCache,
+  options: IdTokenValidationOptions,
+): Promise<IdTokenClaims> {
+  const parts = idToken.split('.');
+  if (parts.length !== 3) {
+    throw invalid('ID token is not a JWT');
+  }
+
+  const header = decodeJwtPart<JwtHeader>(parts[0]);
+  const claims = decodeJwtPart<IdTokenClaims>(parts[1]);
+  const algorithm = ALGORITHMS[header.alg];
+  if (!algorithm) {
+    throw invalid(`Unsupported ID token algorithm "${header.alg}"`);
+  }
+
+  // Signature
+  const jwk = await jwks.getKey(header.kid, header.alg);
+  let valid: boolean;
+  try {
+    const key = await crypto.subtle.importKey('jwk', jwk, algorithm.importParams, false, ['verify']);
+    const signingInput = new TextEncoder().encode(`${parts[0]}.${parts[1]}`);
+    valid = await crypto.subtle.verify(algorithm.verifyParams, key, base64UrlDecode(parts[2]), signingInput);
+  } catch {
+    throw invalid('ID token signature could not be verified');
+  }
+  if (!valid) {
+    throw invalid('ID token signature is invalid');
+  }
+
+  // Claims
+  const tolerance = options.clockTolerance ?? 60;
+  const now = Math.floor(Date.now() / 1000);
+  const audiences = Array.isArray(claims.aud) ? claims.aud : [claims.aud];
+
+  if (claims.iss !== options.issuer) {
+    throw invalid(`ID token issuer "${claims.iss}" does not match "${options.issuer}"`);
+  }
+  if (!audiences.includes(options.clientId)) {
+    throw invalid('ID token audience does not include this client');
+  }
+  if (audiences.length > 1 && claims.azp !== options.clientId) {
+    throw invalid('ID token authorized party does not match this client');
+  }
+  if (typeof claims.exp !== 'number' || claims.exp + tolerance < now) {
+    throw invalid('ID token has expired');
+  }
+  if (typeof claims.iat !== 'number' || claims.iat - tolerance > now) {
+    throw invalid('ID token was issued in the future');
+  }
+  if (options.nonce !== undefined && claims.nonce !== options.nonce) {
+    throw invalid('ID token nonce does not match - possible replay attack');
+  }
+
+  return claims;
+}
+
+/**
+ * Decode a JWT's payload without verifying it.
+ * Only use on tokens that were validated before they were stored.
+ */
+export function decodeJwtClaims<T = IdTokenClaims>(jwt: string): T {
+  return decodeJwtPart<T>(jwt.split('.')[1] || '');
+}
+
+/** Decode base64url (RFC 4648 §5) without padding */
+export function base64UrlDecode(value: string) {
+  const base64 = value.replace(/-/g, '+').replace(/_/g, '/');
+  const binary = atob(base64.padEnd(base64.length + ((4 - (base64.length % 4)) % 4), '='));
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) {
+    bytes[i] = binary.charCodeAt(i);
+  }
+  return bytes;
+}
+
+// ── Helpers ────────────────────────────────────────────────────────
+
+/** WebCrypto parameters for the supported JWS algorithms */
+const ALGORITHMS: Record<
+  string,
+  { importParams: RsaHashedImportParams | EcKeyImportParams | Algorithm; verifyParams: AlgorithmIdentifier | RsaPssParams | EcdsaParams }
+> = {
+  RS256: {
+    importParams: { name: 'RSASSA-PKCS1-v1_5', hash: 'SHA-256' },
+    verifyParams: { name: 'RSASSA-PKCS1-v1_5' },
+  },
+  RS384: {
+    importParams: { name: 'RSASSA-PKCS1-v1_5', hash: 'SHA-384' },
+    verifyParams: { name: 'RSASSA-PKCS1-v1_5' },
+  },
+  RS512: {
+    importParams: { name: 'RSASSA-PKCS1-v1_5', hash: 'SHA-512' },
+    verifyParams: { name: 'RSASSA-PKCS1-v1_5' },
+  },
+  PS256: {
+    importParams: { name: 'RSA-PSS', hash: 'SHA-256' },
+    verifyParams: { name: 'RSA-PSS', saltLength: 32 },
+  },
+  ES256: {
+    importParams: { name: 'ECDSA', namedCurve: 'P-256' },
+    verifyParams: { name: 'ECDSA', hash: 'SHA-256' },
+  },
+  ES384: {
+    importParams: { name: 'ECDSA', namedCurve: 'P-384' },
+    verifyParams: { name: 'ECDSA', hash: 'SHA-384' },
+  },
+  EdDSA: {
+    importParams: { name: 'Ed25519' },
+    verifyParams: { name: 'Ed25519' },
+  },
+};
+
+function decodeJwtPart<T>(part: string): T {
+  try {
+    return JSON.parse(new TextDecoder().decode(base64UrlDecode(part)));
+  } catch {
+    throw invalid('ID token is malformed');
+  }
+}
+
+function invalid(message: string): FlowstaAuthError {
+  return new FlowstaAuthError(message, 'invalid_id_token');
+}
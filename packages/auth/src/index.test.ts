@@ -0,0 +1,780 @@
+// @vitest-environment happy-dom
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import {
+  FlowstaAuth,
+  NetworkError,
+  NotAuthenticatedError,
+  ProfileValidationError,
+  memoryStorageAdapter,
+  type AuthEvent,
+  type FlowstaAuthConfig,
+  type FlowstaStorage,
+} from './index.js';
+
+const TOKEN_URL = 'https://auth-api.flowsta.com/oauth/token';
+const REVOKE_URL = 'https://auth-api.flowsta.com/oauth/revoke';
+
+const instances: FlowstaAuth[] = [];
+
+/** A storage adapter holding a logged-in session whose access token is about to expire */
+async function storedSession(expiresIn = 30 * 1000): Promise<FlowstaStorage> {
+  const storage = memoryStorageAdapter();
+  await storage.setItem('flowsta_access_token', 'access-1');
+  await storage.setItem('flowsta_refresh_token', 'refresh-1');
+  await storage.setItem('flowsta_token_expires_at', String(Date.now() + expiresIn));
+  await storage.setItem('flowsta_user', JSON.stringify({ id: 'user_1', displayName: 'Ada' }));
+  return storage;
+}
+
+async function createAuth(storage: FlowstaStorage, config: Partial<FlowstaAuthConfig> = {}) {
+  const auth = new FlowstaAuth({
+    clientId: 'client_123',
+    redirectUri: 'https://app.example/callback',
+    storage,
+    transientStorage: memoryStorageAdapter(),
+    autoRefresh: false,
+    syncTabs: false,
+    ...config,
+  });
+  instances.push(auth);
+  await auth.ready;
+
+  const events: AuthEvent[] = [];
+  auth.onAuthStateChange((event) => events.push(event));
+  return { auth, events };
+}
+
+/** Answer token requests with `responses` in turn */
+function tokenEndpoint(...responses: Array<() => Response>) {
+  const fetch = vi.fn(async (input: RequestInfo | URL, _init?: RequestInit) => {
+    if (String(input) !== TOKEN_URL) throw new Error(`Unexpected request to ${String(input)}`);
+    const next = responses.shift();
+    if (!next) throw new Error('No more token responses');
+    return next();
+  });
+  vi.stubGlobal('fetch', fetch);
+  return fetch;
+}
+
+const tokens = (accessToken: string, refreshToken?: string) => () =>
+  new Response(JSON.stringify({ access_token: accessToken, refresh_token: refreshToken, expires_in: 3600 }), {
+    status: 200,
+    headers: { 'Content-Type': 'application/json' },
+  });
+
+const failure = (status: number, error = 'server_error') => () =>
+  new Response(JSON.stringify({ error }), { status, headers: { 'Content-Type': 'application/json' } });
+
+const offline = () => {
+  throw new TypeError('Failed to fetch');
+};
+
+const json = (body: unknown, init: ResponseInit = {}) =>
+  new Response(JSON.stringify(body), { status: 200, headers: { 'Content-Type': 'application/json' }, ...init });
+
+/** Answer every request with `handler`, recording the requests */
+function serve(handler: (request: Request) => Response | Promise<Response>) {
+  const requests: Request[] = [];
+  vi.stubGlobal(
+    'fetch',
+    vi.fn(async (input: RequestInfo | URL, init?: RequestInit) => {
+      const request = new Request(input, init);
+      requests.push(request);
+      return handler(request.clone());
+    }),
+  );
+  return requests;
+}
+
+/** The Flowsta API for a login: tokens, user info, and nothing else (no Vault, no linked agents) */
+function loginApi(request: Request) {
+  if (request.url === TOKEN_URL) return tokens('access-1', 'refresh-1')();
+  if (request.url.endsWith('/oauth/userinfo')) return json({ sub: 'user_1', display_name: 'Ada' });
+  return new Response(null, { status: 404 });
+}
+
+/** A window standing in for the login popup */
+function fakePopup() {
+  const popup = {
+    location: { href: '' },
+    closed: false,
+    close: vi.fn(() => {
+      popup.closed = true;
+    }),
+  };
+  return popup;
+}
+
+/** The state of the authorization request `popup` was sent to */
+async function popupState(popup: { location: { href: string } }): Promise<string> {
+  await vi.waitFor(() => expect(popup.location.href).not.toBe(''));
+  return new URL(popup.location.href).searchParams.get('state')!;
+}
+
+/** Post an authorization response the way the callback page in `source` does */
+function postResponse(source: unknown, response: Record<string, string>, origin = 'https://app.example') {
+  const data = { type: 'flowsta:authorization_response', code: null, state: null, error: null, error_description: null };
+  window.dispatchEvent(new MessageEvent('message', { origin, source: source as Window, data: { ...data, ...response } }));
+}
+
+afterEach(() => {
+  instances.splice(0).forEach((auth) => auth.destroy());
+  vi.unstubAllGlobals();
+  vi.restoreAllMocks();
+  vi.useRealTimers();
+});
+
+describe('token refresh', () => {
+  it('stores the new tokens, including a rotated refresh token', async () => {
+    const storage = await storedSession();
+    const fetch = tokenEndpoint(tokens('access-2', 'refresh-2'));
+    const { auth, events } = await createAuth(storage);
+
+    await expect(auth.getValidAccessToken()).resolves.toBe('access-2');
+
+    expect(JSON.parse(String(fetch.mock.calls[0][1]?.body))).toMatchObject({
+      grant_type: 'refresh_token',
+      refresh_token: 'refresh-1',
+    });
+    expect(await storage.getItem('flowsta_access_token')).toBe('access-2');
+    expect(await storage.getItem('flowsta_refresh_token')).toBe('refresh-2');
+    expect(events).toEqual([{ type: 'tokenRefreshed', accessToken: 'access-2' }]);
+  });
+
+  it('returns a fresh token without refreshing', async () => {
+    const fetch = tokenEndpoint();
+    const { auth } = await createAuth(await storedSession(3600 * 1000));
+
+    await expect(auth.getValidAccessToken()).resolves.toBe('access-1');
+    expect(fetch).not.toHaveBeenCalled();
+  });
+
+  it('sends one request for concurrent refreshes', async () => {
+    const fetch = tokenEndpoint(tokens('access-2'));
+    const { auth } = await createAuth(await storedSession());
+
+    const results = await Promise.all([auth.refreshAccessToken(), auth.refreshAccessToken(), auth.getValidAccessToken()]);
+
+    expect(results).toEqual(['access-2', 'access-2', 'access-2']);
+    expect(fetch).toHaveBeenCalledTimes(1);
+  });
+
+  it('ends the session when the refresh token is rejected', async () => {
+    const storage = await storedSession();
+    tokenEndpoint(failure(400, 'invalid_grant'));
+    const { auth, events } = await createAuth(storage);
+
+    await expect(auth.refreshAccessToken()).rejects.toMatchObject({ code: 'token_refresh_failed', oauthError: 'invalid_grant' });
+
+    expect(auth.isAuthenticated()).toBe(false);
+    expect(await storage.getItem('flowsta_refresh_token')).toBeNull();
+    expect(events.map((event) => event.type)).toEqual(['sessionExpired']);
+  });
+
+  it.each([
+    ['offline', offline],
+    ['a server error', failure(503)],
+    ['rate limited', failure(429, 'slow_down')],
+  ])('keeps the session when %s', async (_name, response) => {
+    const storage = await storedSession();
+    tokenEndpoint(response, tokens('access-2'));
+    const { auth, events } = await createAuth(storage);
+
+    await expect(auth.refreshAccessToken()).rejects.toBeDefined();
+
+    expect(auth.isAuthenticated()).toBe(true);
+    expect(await storage.getItem('flowsta_refresh_token')).toBe('refresh-1');
+    expect(events).toEqual([]);
+
+    // The same refresh token works once the network is back
+    await expect(auth.refreshAccessToken()).resolves.toBe('access-2');
+  });
+
+  it('reports network failures as NetworkError', async () => {
+    tokenEndpoint(offline);
+    const { auth } = await createAuth(await storedSession());
+
+    await expect(auth.refreshAccessToken()).rejects.toBeInstanceOf(NetworkError);
+  });
+
+  it('retries a failed background refresh', async () => {
+    vi.useFakeTimers();
+    const fetch = tokenEndpoint(offline, tokens('access-2'));
+    const { auth } = await createAuth(await storedSession(), { autoRefresh: true });
+
+    await vi.advanceTimersByTimeAsync(0);
+    expect(fetch).toHaveBeenCalledTimes(1);
+    expect(auth.isAuthenticated()).toBe(true);
+
+    await vi.advanceTimersByTimeAsync(30 * 1000);
+    expect(fetch).toHaveBeenCalledTimes(2);
+    expect(auth.getAccessToken()).toBe('access-2');
+  });
+
+  it('drops a refresh that completes after logout and revokes its tokens', async () => {
+    const storage = await storedSession();
+    let respond: ((response: Response) => void) | undefined;
+    const fetch = vi.fn(async (input: RequestInfo | URL, _init?: RequestInit) => {
+      if (String(input) === REVOKE_URL) return new Response(null, { status: 200 });
+      return new Promise<Response>((resolve) => {
+        respond = resolve;
+      });
+    });
+    vi.stubGlobal('fetch', fetch);
+    const { auth, events } = await createAuth(storage);
+
+    const refresh = auth.refreshAccessToken();
+    await vi.waitFor(() => expect(respond).toBeDefined());
+    const logout = auth.logout();
+    respond?.(tokens('access-2', 'refresh-2')());
+
+    await expect(refresh).rejects.toBeInstanceOf(NotAuthenticatedError);
+    await logout;
+
+    expect(auth.getAccessToken()).toBeNull();
+    expect(await storage.getItem('flowsta_access_token')).toBeNull();
+    expect(await storage.getItem('flowsta_refresh_token')).toBeNull();
+    expect(events.filter((event) => event.type !== 'sessionExpiring').map((event) => event.type)).toEqual(['logout']);
+    const revoked = fetch.mock.calls
+      .filter(([input]) => String(input) === REVOKE_URL)
+      .map(([, init]) => new URLSearchParams(String(init?.body)).get('token'));
+    expect(revoked).toEqual(['refresh-2', 'refresh-1', 'access-1']);
+  });
+});
+
+describe('fetch', () => {
+  const API_URL = 'https://api.example/orders';
+
+  /** The bearer tokens sent to the app's API */
+  const sentTokens = (requests: Request[]) =>
+    requests.filter((request) => request.url === API_URL).map((request) => request.headers.get('Authorization'));
+
+  it('refreshes the token and retries once after a 401', async () => {
+    const requests = serve((request) => {
+      if (request.url === TOKEN_URL) return tokens('access-2')();
+      return request.headers.get('Authorization') === 'Bearer access-2' ? json({ orders: [] }) : failure(401)();
+    });
+    const { auth } = await createAuth(await storedSession(3600 * 1000));
+
+    const response = await auth.fetch(API_URL);
+
+    expect(response.status).toBe(200);
+    expect(sentTokens(requests)).toEqual(['Bearer access-1', 'Bearer access-2']);
+  });
+
+  it('returns a repeated 401 without refreshing again', async () => {
+    const requests = serve((request) => (request.url === TOKEN_URL ? tokens('access-2')() : failure(401)()));
+    const { auth } = await createAuth(await storedSession(3600 * 1000));
+
+    const response = await auth.fetch(API_URL);
+
+    expect(response.status).toBe(401);
+    expect(requests.filter((request) => request.url === TOKEN_URL)).toHaveLength(1);
+    expect(sentTokens(requests)).toHaveLength(2);
+  });
+
+  it('retries a 429 after its Retry-After delay', async () => {
+    vi.useFakeTimers();
+    let limited = true;
+    const requests = serve(() => {
+      if (!limited) return json({ orders: [] });
+      limited = false;
+      return new Response(null, { status: 429, headers: { 'Retry-After': '2' } });
+    });
+    const { auth } = await createAuth(await storedSession(3600 * 1000));
+
+    const response = auth.fetch(API_URL);
+    await vi.advanceTimersByTimeAsync(1999);
+    expect(requests).toHaveLength(1);
+
+    await vi.advanceTimersByTimeAsync(1);
+    expect((await response).status).toBe(200);
+    expect(sentTokens(requests)).toEqual(['Bearer access-1', 'Bearer access-1']);
+  });
+
+  it('returns a 429 that asks to wait longer than maxRetryAfter', async () => {
+    const requests = serve(() => new Response(null, { status: 429, headers: { 'Retry-After': '120' } }));
+    const { auth } = await createAuth(await storedSession(3600 * 1000));
+
+    const response = await auth.fetch(API_URL, { maxRetryAfter: 60 });
+
+    expect(response.status).toBe(429);
+    expect(requests).toHaveLength(1);
+  });
+});
+
+describe('file verification', () => {
+  const hash = (n: number) => n.toString(16).padStart(64, '0');
+  const unsigned = { signatures: [], count: 0 };
+
+  /** The hash a verification request asked for */
+  const verifiedHash = (request: Request) => new URL(request.url).searchParams.get('hash');
+
+  it('verifies at most `concurrency` hashes at once', async () => {
+    let active = 0;
+    let maxActive = 0;
+    serve(async () => {
+      maxActive = Math.max(maxActive, ++active);
+      await new Promise((resolve) => setTimeout(resolve, 5));
+      active--;
+      return json(unsigned);
+    });
+    const { auth } = await createAuth(memoryStorageAdapter());
+    const hashes = Array.from({ length: 10 }, (_, i) => hash(i));
+
+    const { results, verified } = await auth.verifyFiles([...hashes, hash(0).toUpperCase()], { concurrency: 3 });
+
+    expect(maxActive).toBe(3);
+    expect(verified).toBe(10);
+    expect(results.map((entry) => entry.fileHash)).toEqual(hashes);
+  });
+
+  it('reports failures per hash', async () => {
+    serve((request) => (verifiedHash(request) === hash(1) ? failure(503)() : json(unsigned)));
+    const { auth } = await createAuth(memoryStorageAdapter());
+
+    const { results, verified, failed } = await auth.verifyFiles([hash(0), hash(1), hash(2)]);
+
+    expect({ verified, failed }).toEqual({ verified: 2, failed: 1 });
+    expect(results[1]).toMatchObject({ fileHash: hash(1), result: null, error: { status: 503 } });
+  });
+
+  it('revalidates cached results with their ETag', async () => {
+    const requests = serve((request) =>
+      request.headers.get('If-None-Match') === '"v1"'
+        ? new Response(null, { status: 304 })
+        : json({ signatures: [{ file_hash: hash(0) }], count: 1 }, { headers: { ETag: '"v1"' } }),
+    );
+    const { auth } = await createAuth(memoryStorageAdapter(), { verifyCache: { ttl: 0 } });
+
+    const first = await auth.verifyFile(hash(0));
+    const second = await auth.verifyFile(hash(0));
+
+    expect(second).toEqual(first);
+    expect(requests.map((request) => request.headers.get('If-None-Match'))).toEqual([null, '"v1"']);
+  });
+
+  it('serves fresh results from the cache until the file is signed', async () => {
+    const requests = serve((request) =>
+      request.url.endsWith('/sign-it/sign')
+        ? json({ file_hash: hash(0), agent_pub_key: 'uhCAk1', signed_at: 1_772_366_400 })
+        : json(unsigned),
+    );
+    const { auth } = await createAuth(await storedSession(3600 * 1000), {
+      scopes: ['openid', 'sign'],
+      verifyCache: { ttl: 300 },
+    });
+
+    await auth.verifyFile(hash(0));
+    await auth.verifyFile(hash(0));
+    await auth.signFile({ fileHash: hash(0) });
+    await auth.verifyFile(hash(0));
+
+    expect(requests.filter((request) => verifiedHash(request) === hash(0))).toHaveLength(2);
+  });
+});
+
+describe('resolveIdentityGraph', () => {
+  /** Serve linked agents from an adjacency list; agents missing from it fail */
+  function linkedAgentsApi(graph: Record<string, Array<{ agent_pub_key: string; is_revoked?: boolean }>>) {
+    return serve((request) => {
+      const agent = new URL(request.url).searchParams.get('agent_pub_key')!;
+      return graph[agent] ? json({ linked_agents: graph[agent] }) : failure(503)();
+    });
+  }
+
+  const link = (agent: string, isRevoked = false) => ({ agent_pub_key: agent, is_revoked: isRevoked });
+
+  it('follows links transitively and skips revoked ones', async () => {
+    linkedAgentsApi({
+      A: [link('B')],
+      B: [link('A'), link('C'), link('E', true)],
+      C: [link('B'), link('D')],
+      D: [link('C')],
+    });
+    const { auth } = await createAuth(await storedSession(3600 * 1000));
+
+    const graph = await auth.resolveIdentityGraph('A');
+
+    expect(graph.agents).toEqual([
+      { agentPubKey: 'A', depth: 0, path: ['A'] },
+      { agentPubKey: 'B', depth: 1, path: ['A', 'B'] },
+      { agentPubKey: 'C', depth: 2, path: ['A', 'B', 'C'] },
+      { agentPubKey: 'D', depth: 3, path: ['A', 'B', 'C', 'D'] },
+    ]);
+    expect(graph.links.map(({ from, to }) => `${from}-${to}`)).toEqual(['A-B', 'B-C', 'C-D']);
+    expect(graph).toMatchObject({ failures: [], truncated: false });
+  });
+
+  it('stops at maxDepth', async () => {
+    linkedAgentsApi({ A: [link('B')], B: [link('A'), link('C')], C: [link('B')] });
+    const { auth } = await createAuth(await storedSession(3600 * 1000));
+
+    const graph = await auth.resolveIdentityGraph('A', { maxDepth: 1 });
+
+    expect(graph.agents.map((agent) => agent.agentPubKey)).toEqual(['A', 'B']);
+    expect(graph.links).toEqual([{ from: 'A', to: 'B' }]);
+    expect(graph.truncated).toBe(true);
+  });
+
+  it('records failed lookups and keeps walking', async () => {
+    linkedAgentsApi({ A: [link('B'), link('F')], B: [link('A'), link('C')], C: [link('B')] });
+    const { auth } = await createAuth(await storedSession(3600 * 1000));
+
+    const graph = await auth.resolveIdentityGraph('A');
+
+    expect(graph.agents.map((agent) => agent.agentPubKey)).toEqual(['A', 'B', 'F', 'C']);
+    expect(graph.failures).toEqual([{ agentPubKey: 'F', error: expect.objectContaining({ status: 503 }) }]);
+    expect(graph.truncated).toBe(true);
+  });
+});
+
+describe('updateProfile', () => {
+  const config = { scopes: ['openid', 'update_profile'] };
+
+  it('updates the user and tells listeners', async () => {
+    const storage = await storedSession(3600 * 1000);
+    const requests = serve(() => json({ sub: 'user_1', display_name: 'Ada L.', preferred_username: 'ada' }));
+    const { auth, events } = await createAuth(storage, config);
+
+    const user = await auth.updateProfile({ displayName: 'Ada L.' });
+
+    expect(await requests[0].json()).toEqual({ display_name: 'Ada L.' });
+    expect(user).toMatchObject({ id: 'user_1', displayName: 'Ada L.', username: 'ada' });
+    expect(events).toEqual([{ type: 'userUpdated', user }]);
+    expect(JSON.parse((await storage.getItem('flowsta_user'))!)).toMatchObject({ displayName: 'Ada L.' });
+  });
+
+  it.each([
+    ['a list', [{ field: 'username', code: 'taken', message: 'Username is taken' }]],
+    ['a map', { username: 'Username is taken' }],
+  ])('maps server field errors given as %s to ProfileValidationError', async (_name, errors) => {
+    serve(() => json({ error: 'invalid_request', errors }, { status: 422 }));
+    const { auth, events } = await createAuth(await storedSession(3600 * 1000), config);
+
+    const error = await auth.updateProfile({ username: 'ada' }).catch((e: unknown) => e);
+
+    expect(error).toBeInstanceOf(ProfileValidationError);
+    expect(error).toMatchObject({
+      code: 'invalid_profile',
+      status: 422,
+      fields: [{ field: 'username', code: expect.any(String), message: 'Username is taken' }],
+    });
+    expect(auth.getUser()?.username).toBeUndefined();
+    expect(events).toEqual([]);
+  });
+
+  it('rejects empty and invalid updates without a request', async () => {
+    const requests = serve(() => json({}));
+    const { auth } = await createAuth(await storedSession(3600 * 1000), config);
+
+    await expect(auth.updateProfile({})).rejects.toMatchObject({ code: 'invalid_profile' });
+    await expect(auth.updateProfile({ profilePicture: 'javascript:alert(1)' })).rejects.toMatchObject({
+      fields: [{ field: 'profilePicture', code: 'invalid_url' }],
+    });
+    expect(requests).toEqual([]);
+  });
+});
+
+describe('logout', () => {
+  /** The tokens sent to the revocation endpoint, with their type hints */
+  async function revoked(requests: Request[]) {
+    const revocations = requests.filter((request) => request.url === REVOKE_URL);
+    return Promise.all(
+      revocations.map(async (request) => {
+        const body = new URLSearchParams(await request.text());
+        return [body.get('token'), body.get('token_type_hint')];
+      }),
+    );
+  }
+
+  it('revokes the refresh token before the access token', async () => {
+    const storage = await storedSession(3600 * 1000);
+    const requests = serve(() => new Response(null, { status: 200 }));
+    const { auth, events } = await createAuth(storage);
+
+    await auth.logout();
+
+    expect(await revoked(requests)).toEqual([
+      ['refresh-1', 'refresh_token'],
+      ['access-1', 'access_token'],
+    ]);
+    expect(auth.isAuthenticated()).toBe(false);
+    expect(events).toEqual([{ type: 'logout' }]);
+  });
+
+  it.each([
+    ['offline', offline],
+    ['the server fails', failure(503)],
+  ])('logs out locally when revocation fails: %s', async (_name, response) => {
+    const storage = await storedSession(3600 * 1000);
+    const requests = serve(response);
+    const { auth, events } = await createAuth(storage);
+
+    await expect(auth.logout()).resolves.toBeUndefined();
+
+    // The access token is still revoked after the refresh token failed
+    expect(await revoked(requests)).toHaveLength(2);
+    expect(auth.getAccessToken()).toBeNull();
+    expect(await storage.getItem('flowsta_refresh_token')).toBeNull();
+    expect(events).toEqual([{ type: 'logout' }]);
+  });
+
+  it('skips revocation when asked to', async () => {
+    const requests = serve(() => new Response(null, { status: 200 }));
+    const { auth } = await createAuth(await storedSession(3600 * 1000));
+
+    await auth.logout({ revokeTokens: false });
+
+    expect(requests).toEqual([]);
+    expect(auth.isAuthenticated()).toBe(false);
+  });
+});
+
+describe('popup login', () => {
+  it('logs in with the code posted from the popup', async () => {
+    const requests = serve(loginApi);
+    const popup = fakePopup();
+    const { auth, events } = await createAuth(memoryStorageAdapter());
+
+    const login = auth.loginWithPopup({ popup: popup as unknown as Window });
+    const state = await popupState(popup);
+    expect(state.startsWith('popup.')).toBe(true);
+
+    // Ignored: another origin, another window
+    postResponse(popup, { code: 'forged', state }, 'https://evil.example');
+    postResponse({}, { code: 'forged', state });
+    postResponse(popup, { code: 'code-1', state });
+
+    await expect(login).resolves.toMatchObject({ id: 'user_1', displayName: 'Ada' });
+    const tokenRequest = requests.find((request) => request.url === TOKEN_URL)!;
+    expect(await tokenRequest.json()).toMatchObject({ grant_type: 'authorization_code', code: 'code-1' });
+    expect(events.map((event) => event.type)).toEqual(['login']);
+  });
+
+  it('rejects a response for another request and closes the popup', async () => {
+    serve(loginApi);
+    const popup = fakePopup();
+    const { auth } = await createAuth(memoryStorageAdapter());
+
+    const login = auth.loginWithPopup({ popup: popup as unknown as Window });
+    await popupState(popup);
+    postResponse(popup, { code: 'code-1', state: 'popup.other' });
+
+    await expect(login).rejects.toMatchObject({ code: 'invalid_state' });
+    expect(popup.close).toHaveBeenCalled();
+    expect(auth.isAuthenticated()).toBe(false);
+  });
+
+  it('rejects when the user closes the popup', async () => {
+    serve(loginApi);
+    const popup = fakePopup();
+    const { auth } = await createAuth(memoryStorageAdapter());
+
+    const login = auth.loginWithPopup({ popup: popup as unknown as Window });
+    await popupState(popup);
+    popup.closed = true;
+
+    await expect(login).rejects.toMatchObject({ code: 'popup_closed' });
+  });
+
+  it('times out and closes the popup', async () => {
+    serve(loginApi);
+    const popup = fakePopup();
+    const { auth } = await createAuth(memoryStorageAdapter());
+
+    await expect(auth.loginWithPopup({ popup: popup as unknown as Window, timeout: 50 })).rejects.toMatchObject({
+      code: 'timeout',
+    });
+    expect(popup.close).toHaveBeenCalled();
+  });
+
+  it('recognizes the callback page of a popup request only', async () => {
+    const { auth } = await createAuth(memoryStorageAdapter());
+    vi.spyOn(window, 'opener', 'get').mockReturnValue({});
+
+    window.history.replaceState(null, '', '/callback?code=code-1&state=popup.state-1');
+    expect(auth.isPopupCallback()).toBe(true);
+
+    // A redirect login in a window that happens to have an opener
+    window.history.replaceState(null, '', '/callback?code=code-1&state=state-1');
+    expect(auth.isPopupCallback()).toBe(false);
+  });
+});
+
+describe('silent authentication', () => {
+  /** Keep hidden iframes from loading their page; returns the URLs they were sent to */
+  function iframeUrls() {
+    const setSrc = vi.spyOn(HTMLIFrameElement.prototype, 'src', 'set').mockImplementation(() => {});
+    return () => setSrc.mock.calls.map(([url]) => new URL(url));
+  }
+
+  /** The hidden iframe of `checkSession()` and the state of its request */
+  async function silentAuthFrame(urls: () => URL[]) {
+    await vi.waitFor(() => expect(urls()).toHaveLength(1));
+    return { iframe: document.querySelector('iframe')!, url: urls()[0], state: urls()[0].searchParams.get('state')! };
+  }
+
+  it('logs in with the code posted from the hidden iframe', async () => {
+    serve(loginApi);
+    const urls = iframeUrls();
+    const { auth } = await createAuth(memoryStorageAdapter());
+
+    const session = auth.checkSession();
+    const { iframe, url, state } = await silentAuthFrame(urls);
+    expect(url.searchParams.get('prompt')).toBe('none');
+    expect(iframe.contentWindow).not.toBeNull();
+    postResponse(iframe.contentWindow, { code: 'code-1', state });
+
+    await expect(session).resolves.toMatchObject({ id: 'user_1' });
+    expect(document.querySelector('iframe')).toBeNull();
+  });
+
+  it('returns null when the user has to log in', async () => {
+    serve(loginApi);
+    const urls = iframeUrls();
+    const { auth, events } = await createAuth(memoryStorageAdapter());
+
+    const session = auth.checkSession();
+    const { iframe, state } = await silentAuthFrame(urls);
+    postResponse(iframe.contentWindow, { error: 'login_required', state });
+
+    await expect(session).resolves.toBeNull();
+    expect(document.querySelector('iframe')).toBeNull();
+    expect(events).toEqual([]);
+  });
+
+  it('ignores responses from other origins and times out', async () => {
+    serve(loginApi);
+    const urls = iframeUrls();
+    const { auth } = await createAuth(memoryStorageAdapter());
+
+    const session = auth.checkSession({ timeout: 100 });
+    const { iframe, state } = await silentAuthFrame(urls);
+    postResponse(iframe.contentWindow, { code: 'code-1', state }, 'https://evil.example');
+
+    await expect(session).rejects.toMatchObject({ code: 'timeout' });
+    expect(document.querySelector('iframe')).toBeNull();
+  });
+
+  it('throws when popup mode is blocked', async () => {
+    vi.spyOn(window, 'open').mockReturnValue(null);
+    const { auth } = await createAuth(memoryStorageAdapter());
+
+    await expect(auth.checkSession({ mode: 'popup' })).rejects.toMatchObject({ code: 'popup_blocked' });
+  });
+});
+
+describe('handleCallback', () => {
+  /** Transient storage as `login()` leaves it for the request with state 'state-1' */
+  async function pendingLogin(loginState?: Record<string, unknown>) {
+    const transientStorage = memoryStorageAdapter();
+    await transientStorage.setItem('flowsta_state', 'state-1');
+    await transientStorage.setItem('flowsta_code_verifier', 'verifier-1');
+    await transientStorage.setItem('flowsta_nonce', 'nonce-1');
+    if (loginState) await transientStorage.setItem('flowsta_login_state', JSON.stringify(loginState));
+    return transientStorage;
+  }
+
+  it('returns the returnTo and appState stored with the same state', async () => {
+    const transientStorage = await pendingLogin({ state: 'state-1', returnTo: '/drafts/1', appState: { draftId: 'abc' } });
+    window.history.replaceState(null, '', '/callback?code=code-1&state=state-1');
+    serve(loginApi);
+    const { auth } = await createAuth(memoryStorageAdapter(), { transientStorage });
+
+    await expect(auth.handleCallback()).resolves.toEqual({
+      user: expect.objectContaining({ id: 'user_1' }),
+      returnTo: '/drafts/1',
+      appState: { draftId: 'abc' },
+    });
+    expect(await transientStorage.getItem('flowsta_login_state')).toBeNull();
+    expect(await transientStorage.getItem('flowsta_code_verifier')).toBeNull();
+  });
+
+  it('ignores app state stored by another login', async () => {
+    const transientStorage = await pendingLogin({ state: 'state-0', returnTo: '/elsewhere' });
+    window.history.replaceState(null, '', '/callback?code=code-1&state=state-1');
+    serve(loginApi);
+    const { auth } = await createAuth(memoryStorageAdapter(), { transientStorage });
+
+    const result = await auth.handleCallback();
+
+    expect(result.returnTo).toBeUndefined();
+    expect(result.appState).toBeUndefined();
+  });
+
+  it('removes the OAuth parameters from the address bar, even when the login fails', async () => {
+    const transientStorage = await pendingLogin();
+    window.history.replaceState(null, '', '/callback?tab=2&code=code-1&state=forged&iss=https%3A%2F%2Fauth-api.flowsta.com');
+    const { auth } = await createAuth(memoryStorageAdapter(), { transientStorage });
+
+    await expect(auth.handleCallback()).rejects.toMatchObject({ code: 'invalid_state' });
+    expect(window.location.pathname + window.location.search).toBe('/callback?tab=2');
+  });
+
+  it('rejects an ID token when the login nonce is missing', async () => {
+    const transientStorage = memoryStorageAdapter();
+    await transientStorage.setItem('flowsta_state', 'state-1');
+    await transientStorage.setItem('flowsta_code_verifier', 'verifier-1');
+    window.history.replaceState(null, '', '/callback?code=code-1&state=state-1');
+    tokenEndpoint(() => new Response(JSON.stringify({ access_token: 'access-1', id_token: 'a.b.c', expires_in: 3600 })));
+    const { auth } = await createAuth(memoryStorageAdapter(), { transientStorage });
+
+    await expect(auth.handleCallback()).rejects.toMatchObject({
+      code: 'invalid_id_token',
+      message: expect.stringMatching(/nonce/),
+    });
+    expect(auth.isAuthenticated()).toBe(false);
+  });
+});
+
+describe('tab sync', () => {
+  it('logs out every tab', async () => {
+    const storage = await storedSession(3600 * 1000);
+    const { auth: first } = await createAuth(storage, { syncTabs: true });
+    const { auth: second, events } = await createAuth(storage, { syncTabs: true });
+
+    await first.logout({ revokeTokens: false });
+
+    await vi.waitFor(() => expect(events.map((event) => event.type)).toEqual(['logout']));
+    expect(second.isAuthenticated()).toBe(false);
+  });
+
+  it('picks up a token refreshed in another tab', async () => {
+    const storage = await storedSession();
+    tokenEndpoint(tokens('access-2', 'refresh-2'));
+    const { auth: first } = await createAuth(storage, { syncTabs: true });
+    const { auth: second, events } = await createAuth(storage, { syncTabs: true });
+
+    await first.refreshAccessToken();
+
+    await vi.waitFor(() =>
+      expect(events).toContainEqual({ type: 'tokenRefreshed', accessToken: 'access-2' }),
+    );
+    expect(second.getAccessToken()).toBe('access-2');
+  });
+
+  it('ignores its own messages', async () => {
+    const storage = await storedSession();
+    tokenEndpoint(tokens('access-2'));
+    const { auth, events } = await createAuth(storage, { syncTabs: true });
+
+    await auth.refreshAccessToken();
+    await new Promise((resolve) => setTimeout(resolve, 20));
+
+    expect(events.filter((event) => event.type === 'tokenRefreshed')).toHaveLength(1);
+  });
+
+  it('is off outside a browser window', async () => {
+    vi.stubGlobal('window', undefined);
+    const storage = await storedSession(3600 * 1000);
+    const { auth: first } = await createAuth(storage, { syncTabs: true });
+    const { auth: second, events } = await createAuth(storage, { syncTabs: true });
+
+    await first.logout({ revokeTokens: false });
+    await new Promise((resolve) => setTimeout(resolve, 20));
+
+    expect(events).toEqual([]);
+    expect(second.isAuthenticated()).toBe(true);
+  });
+});
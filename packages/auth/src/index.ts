@@ -13,6 +13,86 @@
  * - Agent linking queries (DHT-verified identity proofs)
  */
 
+import {
+  localStorageAdapter,
+  sessionStorageAdapter,
+  type FlowstaStorage,
+} from './storage.js';
+
+import {
+  FlowstaAuthError,
+  InvalidStateError,
+  MissingVerifierError,
+  NotAuthenticatedError,
+  LoginRequiredError,
+  AccessDeniedError,
+  MissingScopeError,
+  ProfileValidationError,
+  PopupBlockedError,
+  PopupClosedError,
+  authorizationError,
+  errorFromResponse,
+  isInteractionRequired,
+  parseRetryAfter,
+  safeFetch,
+  type ProfileFieldError,
+} from './errors.js';
+import { JwksCache, decodeJwtClaims, validateIdToken, type IdTokenClaims } from './idToken.js';
+import {
+  defaultEndpoints,
+  discoveredEndpoints,
+  fetchOpenIdConfiguration,
+  type FlowstaEndpoints,
+} from './discovery.js';
+import { hashBlob, type HashOptions } from './hash.js';
+import { ResponseCache, type CacheOptions } from './cache.js';
+import { toIsoTime } from './proof.js';
+
+export type { IdTokenClaims } from './idToken.js';
+export type { FlowstaEndpoints, OpenIdConfiguration } from './discovery.js';
+export type { CacheOptions } from './cache.js';
+export { Sha256, hashContent, type HashInput, type HashOptions, type HashProgress } from './hash.js';
+export { decodeAgentPubKey, verifySignatureLocally, type LocalSignature } from './signature.js';
+export {
+  createProofBundle,
+  verifyProofBundle,
+  PROOF_BUNDLE_TYPE,
+  PROOF_BUNDLE_VERSION,
+  type ProofBundle,
+  type ProofMetadata,
+  type ProofVerificationResult,
+  type SigningResult,
+} from './proof.js';
+
+export {
+  FlowstaAuthError,
+  InvalidStateError,
+  MissingVerifierError,
+  NotAuthenticatedError,
+  LoginRequiredError,
+  AccessDeniedError,
+  MissingScopeError,
+  ProfileValidationError,
+  RateLimitedError,
+  NetworkError,
+  PopupBlockedError,
+  PopupClosedError,
+  type FlowstaAuthErrorCode,
+  type FlowstaAuthErrorDetails,
+  type ProfileFieldError,
+} from './errors.js';
+
+export {
+  localStorageAdapter,
+  sessionStorageAdapter,
+  memoryStorageAdapter,
+  cookieStorageAdapter,
+  indexedDBStorageAdapter,
+  type FlowstaStorage,
+  type CookieStorageOptions,
+  type IndexedDBStorageOptions,
+} from './storage.js';
+
 // ── Types ──────────────────────────────────────────────────────────
 
 export interface FlowstaAuthConfig {
@@ -26,6 +106,48 @@ export interface FlowstaAuthConfig {
   loginUrl?: string;
   /** The Flowsta API URL. Default: 'https://auth-api.flowsta.com' */
   apiUrl?: string;
+  /** Flowsta Vault IPC server URL. Default: 'http://127.0.0.1:27777' */
+  ipcUrl?: string;
+  /** App name shown in the Vault's signing approval dialog. Default: the page's hostname */
+  appName?: string;
+  /** Expected `iss` claim of ID tokens. Default: the API URL, or the discovered issuer */
+  issuer?: string;
+  /**
+   * Load endpoints from `/.well-known/openid-configuration`.
+   * `true` uses `${issuer}/.well-known/openid-configuration`; a string is used
+   * as the discovery document URL. Default: false
+   */
+  discovery?: boolean | string;
+  /** Per-endpoint overrides; take precedence over defaults and discovery */
+  endpoints?: Partial<FlowstaEndpoints>;
+  /** Refresh the access token automatically before it expires. Default: true */
+  autoRefresh?: boolean;
+  /** Seconds before expiry at which the access token is refreshed. Default: 60 */
+  refreshLeeway?: number;
+  /**
+   * Seconds before expiry at which 'sessionExpiring' is emitted for sessions
+   * that won't be refreshed automatically. Default: 120
+   */
+  expiryWarning?: number;
+  /**
+   * Where the session (tokens and user) is persisted.
+   * Default: localStorageAdapter() (in-memory where localStorage is unavailable)
+   */
+  storage?: FlowstaStorage;
+  /**
+   * Where the PKCE verifier and state are kept during the login redirect.
+   * Default: sessionStorageAdapter()
+   */
+  transientStorage?: FlowstaStorage;
+  /** Synchronize login, logout and token refreshes across browser tabs. Default: true */
+  syncTabs?: boolean;
+  /**
+   * Cache `verifyFile()` results in memory. `true` uses a 5 minute TTL;
+   * stale entries are revalidated with their ETag. Default: false
+   */
+  verifyCache?: boolean | CacheOptions;
+  /** Seconds `getLinkedAgentDetails()` results are cached. Default: 300 */
+  linkedAgentsTtl?: number;
 }
 
 export interface FlowstaUser {
@@ -49,6 +171,14 @@ export interface FlowstaUser {
   signingMode?: 'remote' | 'ipc';
 }
 
+/** Profile changes for `updateProfile()`; omitted fields are left unchanged */
+export interface ProfileUpdate {
+  displayName?: string;
+  username?: string;
+  /** An http(s) URL */
+  profilePicture?: string;
+}
+
 /** A linked agent (verified on the DHT via IsSamePersonEntry) */
 export interface LinkedAgent {
   /** The linked agent's public key */
@@ -59,16 +189,265 @@ export interface LinkedAgent {
   isRevoked: boolean;
 }
 
+/** Options for `resolveIdentityGraph()` */
+export interface IdentityGraphOptions {
+  /** Maximum number of links between the starting agent and any other. Default: 3 */
+  maxDepth?: number;
+  /** Stop after discovering this many agents. Default: 100 */
+  maxAgents?: number;
+  /** Maximum number of parallel lookups. Default: 4 */
+  concurrency?: number;
+}
+
+/** An agent reached by `resolveIdentityGraph()` */
+export interface IdentityNode {
+  agentPubKey: string;
+  /** Number of links from the starting agent */
+  depth: number;
+  /** The agents from the starting agent to this one, both included */
+  path: string[];
+}
+
+/** Agents that belong to the same person, found through chains of links */
+export interface IdentityGraph {
+  /** The starting agent */
+  root: string;
+  /** Every agent reached, the starting agent first (depth 0) */
+  agents: IdentityNode[];
+  /** Active links between the agents, each listed once */
+  links: Array<{ from: string; to: string; linkedAt?: string }>;
+  /** Agents whose links could not be looked up (e.g. rate limited) */
+  failures: Array<{ agentPubKey: string; error: Error }>;
+  /** Whether `maxDepth`, `maxAgents` or failed lookups cut the walk short */
+  truncated: boolean;
+}
+
+/** A file to sign with `signFile()` or `signBatch()` */
+export interface SignFileOptions {
+  /** SHA-256 hex string of the file (64 characters) */
+  fileHash: string;
+  /** Why the file is signed, e.g. 'authorship'. Default: 'authorship' */
+  intent?: string;
+  /** AI generation disclosure ('none', 'assisted' or 'generated') */
+  aiGeneration?: string;
+  /** Content rights manifest (license, ai_training, ...) */
+  contentRights?: Record<string, string>;
+  /** Label shown in the Vault's approval dialog (e.g. "Report.pdf") */
+  label?: string;
+}
+
+export interface SignBatchOptions {
+  files: SignFileOptions[];
+  /** Metadata applied to every file that doesn't set its own */
+  sharedMetadata?: Omit<SignFileOptions, 'fileHash' | 'label'>;
+}
+
+/** A successful signature, whether it was made by the Vault or the API */
+export interface SignResult {
+  success: true;
+  fileHash: string;
+  /** Base64 Ed25519 signature (null if the API didn't return it) */
+  signature: string | null;
+  /** The signing agent's public key in uhCAk... format */
+  agentPubKey: string;
+  /** ISO 8601 signing time */
+  signedAt: string;
+  /** DHT action hash (null if not committed yet) */
+  actionHash: string | null;
+  /** 'ipc' if signed locally by Flowsta Vault, 'remote' if by the API */
+  signingMode: 'remote' | 'ipc';
+}
+
+/** Result of `signBatch()` */
+export interface BatchSignResult {
+  /** One entry per file, in input order */
+  results: Array<SignResult | { success: false; fileHash: string; error: string }>;
+  /** Number of files signed */
+  signed: number;
+  /** Number of files that failed */
+  failed: number;
+}
+
+/** A signature returned by `verifyFile()` */
+export interface FileSignature {
+  file_hash: string;
+  signer: string;
+  signer_did?: string;
+  signed_at: number;
+  intent?: string;
+  ai_generation?: string;
+  content_rights?: Record<string, any>;
+  revoked: boolean;
+  contactable: boolean;
+}
+
+/** Result of `verifyFile()` */
+export interface FileVerification {
+  signatures: FileSignature[];
+  count: number;
+}
+
+export interface VerifyFilesOptions {
+  /** Maximum number of requests in flight. Default: 6 */
+  concurrency?: number;
+  /** Stops starting new requests; unfinished hashes fail with the abort reason */
+  signal?: AbortSignal;
+}
+
+/** Result of `verifyFiles()` */
+export interface BatchVerification {
+  /** One entry per distinct hash, in input order */
+  results: Array<{
+    fileHash: string;
+    /** The verification, or null if it failed */
+    result: FileVerification | null;
+    /** Why the verification failed, or null */
+    error: Error | null;
+  }>;
+  /** Number of hashes verified */
+  verified: number;
+  /** Number of hashes whose verification failed */
+  failed: number;
+}
+
+/** A Sign It signature made by the current user */
+export interface SignatureRecord {
+  /** DHT action hash identifying the signature */
+  actionHash: string;
+  fileHash: string;
+  /** Signer's agent public key */
+  signer: string;
+  signerDid?: string;
+  /** ISO 8601 signing time */
+  signedAt: string;
+  intent?: string;
+  aiGeneration?: string;
+  contentRights?: Record<string, any>;
+  revoked: boolean;
+  /** ISO 8601 revocation time, or null if not revoked */
+  revokedAt: string | null;
+  revocationReason: string | null;
+}
+
+export interface SignatureListOptions {
+  /** Cursor from a previous page's `nextCursor` */
+  cursor?: string;
+  /** Page size. Default: 20 (server maximum: 100) */
+  limit?: number;
+}
+
+/** A page of signatures from `listMySignatures()` */
+export interface SignatureList {
+  signatures: SignatureRecord[];
+  /** Cursor for the next page, or null on the last page */
+  nextCursor: string | null;
+}
+
 /** Flowsta Vault desktop app status */
 export interface VaultDetectionResult {
   /** Whether Flowsta Vault is running and reachable on localhost */
   running: boolean;
+  /** Whether the Vault is unlocked and can sign */
+  unlocked?: boolean;
   /** The vault agent's public key (if unlocked) */
   agentPubKey?: string;
   /** The vault agent's DID (if unlocked) */
   did?: string;
 }
 
+/** A change of Flowsta Vault's state, reported by `watchVault()` */
+export interface VaultEvent {
+  type: 'running' | 'stopped' | 'unlocked' | 'locked' | 'agentChanged';
+  /** The Vault's new state */
+  vault: VaultDetectionResult;
+  /** The Vault's previous state */
+  previous: VaultDetectionResult;
+}
+
+export interface WatchVaultOptions {
+  /** Milliseconds between probes. Default: 5000 */
+  intervalMs?: number;
+  /**
+   * Longest interval while the Vault is not running; the interval doubles
+   * after each failed probe up to this. Default: 60000
+   */
+  maxIntervalMs?: number;
+  /** Vault IPC server URL. Default: the `ipcUrl` config option */
+  ipcUrl?: string;
+}
+
+export interface LoginOptions<TAppState = unknown> {
+  /** Where to send the user after login, e.g. the deep link they were trying to reach */
+  returnTo?: string;
+  /** Opaque, JSON-serializable state handed back by `handleCallback()` */
+  appState?: TAppState;
+}
+
+/** Result of `handleCallback()` */
+export interface CallbackResult<TAppState = unknown> {
+  /** The authenticated user */
+  user: FlowstaUser;
+  /** The `returnTo` passed to `login()` */
+  returnTo?: string;
+  /** The `appState` passed to `login()` */
+  appState?: TAppState;
+}
+
+export interface PopupLoginOptions {
+  /** Milliseconds to wait for the user to finish logging in. Default: 300000 (5 minutes) */
+  timeout?: number;
+  /** An already opened window to use instead of opening a new popup */
+  popup?: Window;
+}
+
+export interface SilentAuthOptions {
+  /** Run the request in a hidden iframe or a popup. Default: 'iframe' */
+  mode?: 'iframe' | 'popup';
+  /** Milliseconds to wait for login.flowsta.com to respond. Default: 10000 */
+  timeout?: number;
+}
+
+export interface LogoutOptions {
+  /** Revoke the access and refresh tokens at the server (RFC 7009). Default: true */
+  revokeTokens?: boolean;
+  /** Also end the user's session at login.flowsta.com. Default: false */
+  federated?: boolean;
+  /**
+   * Where to send the user afterwards. With `federated`, login.flowsta.com
+   * redirects here after ending its session (must be registered for your app).
+   */
+  returnTo?: string;
+}
+
+/** Options for `FlowstaAuth.fetch()`, in addition to the standard `RequestInit` */
+export interface FlowstaFetchInit extends RequestInit {
+  /**
+   * Throw `NotAuthenticatedError` when there is no session. With `false` the
+   * request is sent without a token when logged out. Default: true
+   */
+  requireAuth?: boolean;
+  /**
+   * Longest `Retry-After` (in seconds) to wait before retrying a 429 once.
+   * Longer waits return the 429 response. 0 disables the retry. Default: 60
+   */
+  maxRetryAfter?: number;
+}
+
+/** Auth state change events emitted by `onAuthStateChange()` */
+export type AuthEvent =
+  | { type: 'login'; user: FlowstaUser }
+  | { type: 'userUpdated'; user: FlowstaUser }
+  | { type: 'logout' }
+  | { type: 'tokenRefreshed'; accessToken: string }
+  | { type: 'sessionExpiring'; expiresAt: number }
+  | { type: 'sessionExpired'; error: Error }
+  | { type: 'error'; error: Error }
+  | { type: 'vaultDetected'; vault: VaultDetectionResult }
+  | { type: 'signingModeChanged'; signingMode: 'remote' | 'ipc'; vault: VaultDetectionResult };
+
+/** Listener registered with `onAuthStateChange()` */
+export type AuthStateListener = (event: AuthEvent, state: AuthState) => void;
+
 export interface AuthState {
   /** Whether the user is authenticated */
   isAuthenticated: boolean;
@@ -76,12 +455,109 @@ export interface AuthState {
   user: FlowstaUser | null;
   /** The access token (null if not authenticated) */
   accessToken: string | null;
+  /** When the access token expires (ms since epoch), or null if unknown or not authenticated */
+  expiresAt: number | null;
+  /** The scopes granted to the session (empty if not authenticated) */
+  scopes: string[];
   /** Whether authentication is loading */
   isLoading: boolean;
   /** Any authentication error */
   error: string | null;
 }
 
+/** Token endpoint response (authorization_code and refresh_token grants) */
+interface TokenResponse {
+  access_token: string;
+  refresh_token?: string;
+  expires_in?: number;
+  token_type?: string;
+  scope?: string;
+  id_token?: string;
+}
+
+/** FlowstaAuthConfig with defaults applied (the issuer is resolved lazily) */
+type ResolvedConfig = Required<Omit<FlowstaAuthConfig, 'issuer'>> & Pick<FlowstaAuthConfig, 'issuer'>;
+
+/** Endpoints and issuer after discovery and overrides */
+interface ResolvedEndpoints {
+  endpoints: FlowstaEndpoints;
+  issuer: string;
+}
+
+/** A prepared authorization request and the secrets needed to complete it */
+interface AuthorizationRequest {
+  url: string;
+  state: string;
+  verifier: string;
+  nonce: string;
+  /** The scopes requested */
+  scopes: string[];
+}
+
+/** Message type posted from the popup callback page to the opener */
+const POPUP_MESSAGE_TYPE = 'flowsta:authorization_response';
+
+/**
+ * Prefix of the `state` of requests answered in a popup or silent-auth
+ * iframe. The callback page can't rely on `window.name` (browsers clear it
+ * on cross-site navigation) or on sessionStorage (popups don't share it),
+ * but the server echoes the state back.
+ */
+const POPUP_STATE_PREFIX = 'popup.';
+
+interface PopupMessage {
+  type: typeof POPUP_MESSAGE_TYPE;
+  code: string | null;
+  state: string | null;
+  error: string | null;
+  error_description: string | null;
+}
+
+/** Keys used in session and transient storage */
+const STORAGE_KEYS = {
+  accessToken: 'flowsta_access_token',
+  refreshToken: 'flowsta_refresh_token',
+  expiresAt: 'flowsta_token_expires_at',
+  user: 'flowsta_user',
+  idToken: 'flowsta_id_token',
+  scopes: 'flowsta_scopes',
+  codeVerifier: 'flowsta_code_verifier',
+  state: 'flowsta_state',
+  nonce: 'flowsta_nonce',
+  loginState: 'flowsta_login_state',
+  tabSync: 'flowsta_tab_sync',
+} as const;
+
+/** Keys that make up a persisted session, in the order applyStoredSession expects */
+const SESSION_KEYS = [
+  STORAGE_KEYS.accessToken,
+  STORAGE_KEYS.user,
+  STORAGE_KEYS.refreshToken,
+  STORAGE_KEYS.expiresAt,
+  STORAGE_KEYS.idToken,
+  STORAGE_KEYS.scopes,
+];
+
+/** App state stored with the PKCE verifier during the login redirect */
+interface StoredLoginState {
+  /** The OAuth state this entry belongs to */
+  state: string;
+  returnTo?: string;
+  appState?: unknown;
+}
+
+/** Milliseconds before retrying a background refresh that failed on a network or server error */
+const REFRESH_RETRY_DELAY = 30 * 1000;
+
+/** OAuth response parameters removed from the address bar after the callback */
+const CALLBACK_PARAMS = ['code', 'state', 'error', 'error_description', 'iss'];
+
+/** Message sent to other tabs after the session changes */
+interface TabSyncMessage {
+  type: 'login' | 'userUpdated' | 'logout' | 'tokenRefreshed' | 'sessionExpired';
+  tabId: string;
+}
+
 // ── PKCE Utilities ─────────────────────────────────────────────────
 
 async function generatePKCEPair(): Promise<{
@@ -116,6 +592,239 @@ function base64UrlEncode(buffer: ArrayBuffer): string {
     .replace(/=+$/, '');
 }
 
+function toError(error: unknown): Error {
+  return error instanceof Error ? error : new Error(String(error));
+}
+
+/** Wait `ms` milliseconds, rejecting with the signal's reason if it aborts */
+function delay(ms: number, signal?: AbortSignal | null): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(signal.reason);
+      return;
+    }
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(signal!.reason);
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+}
+
+// ── Popup Utilities ────────────────────────────────────────────────
+
+/** Open a centered popup window (must be called during a user gesture) */
+function openPopup(name: string): Window | null {
+  const width = 500;
+  const height = 700;
+  const left = window.screenX + (window.outerWidth - width) / 2;
+  const top = window.screenY + (window.outerHeight - height) / 2;
+  return window.open(
+    '',
+    name,
+    `popup=yes,width=${width},height=${height},left=${left},top=${top}`,
+  );
+}
+
+/**
+ * The window that started the flow when this page is the redirect URI
+ * loaded in a login popup or a silent-auth iframe
+ *
+ * A redirect login in a page that merely has an opener or is framed
+ * is not a popup flow: its state lacks the popup prefix.
+ */
+function getCallbackTarget(): Window | null {
+  if (typeof window === 'undefined') return null;
+  const state = new URLSearchParams(window.location.search).get('state');
+  if (!state?.startsWith(POPUP_STATE_PREFIX)) return null;
+  if (window.opener && window.opener !== window) return window.opener;
+  if (window.parent && window.parent !== window) return window.parent;
+  return null;
+}
+
+// ── Vault Utilities ────────────────────────────────────────────────
+
+/** Query the Vault's /status endpoint; never throws */
+async function probeVault(ipcUrl: string): Promise<VaultDetectionResult> {
+  try {
+    const controller = new AbortController();
+    const timeout = setTimeout(() => controller.abort(), 2000);
+
+    const response = await fetch(`${ipcUrl}/status`, {
+      signal: controller.signal,
+    });
+    clearTimeout(timeout);
+
+    if (!response.ok) {
+      return { running: false };
+    }
+
+    const data = await response.json();
+    const agentPubKey = data.agent_pub_key || data.agentPubKey;
+    return {
+      running: true,
+      // Older Vaults only report the agent key while unlocked
+      unlocked: typeof data.unlocked === 'boolean' ? data.unlocked : !!agentPubKey,
+      agentPubKey,
+      did: data.did,
+    };
+  } catch {
+    return { running: false };
+  }
+}
+
+/** Sign through the Vault only while it is running and unlocked */
+function signingModeFor(vault: VaultDetectionResult): 'remote' | 'ipc' {
+  return vault.running && vault.unlocked ? 'ipc' : 'remote';
+}
+
+/** The watchVault events between two Vault states */
+function vaultTransitions(previous: VaultDetectionResult, next: VaultDetectionResult): VaultEvent['type'][] {
+  if (!next.running) {
+    return previous.running ? ['stopped'] : [];
+  }
+
+  const types: VaultEvent['type'][] = [];
+  if (!previous.running) types.push('running');
+  if (next.unlocked && !previous.unlocked) types.push('unlocked');
+  if (!next.unlocked && previous.unlocked) types.push('locked');
+  if (previous.agentPubKey && next.agentPubKey && next.agentPubKey !== previous.agentPubKey) {
+    types.push('agentChanged');
+  }
+  return types;
+}
+
+// ── Profile Helpers ────────────────────────────────────────────────
+
+/** The profile fields of a /oauth/userinfo response */
+function toFlowstaUser(data: Record<string, any>): FlowstaUser {
+  return {
+    id: data.sub || data.id,
+    email: data.email,
+    username: data.preferred_username,
+    displayName: data.display_name || data.name,
+    profilePicture: data.picture || data.profile_picture,
+    agentPubKey: data.agent_pub_key,
+    did: data.did,
+  };
+}
+
+/** Client-side checks; the API enforces the rest (length, uniqueness) */
+function validateProfileUpdate(update: ProfileUpdate): ProfileFieldError[] {
+  const errors: ProfileFieldError[] = [];
+
+  if (update.displayName !== undefined && !update.displayName.trim()) {
+    errors.push({ field: 'displayName', code: 'required', message: 'Display name must not be empty' });
+  }
+  if (update.username !== undefined && !update.username.trim()) {
+    errors.push({ field: 'username', code: 'required', message: 'Username must not be empty' });
+  }
+  if (update.profilePicture !== undefined && !/^https?:\/\/\S+$/i.test(update.profilePicture)) {
+    errors.push({ field: 'profilePicture', code: 'invalid_url', message: 'Profile picture must be an http(s) URL' });
+  }
+  return errors;
+}
+
+/** API field names to `ProfileUpdate` keys */
+const PROFILE_FIELDS: Record<string, ProfileFieldError['field']> = {
+  display_name: 'displayName',
+  displayName: 'displayName',
+  username: 'username',
+  profile_picture: 'profilePicture',
+  profilePicture: 'profilePicture',
+};
+
+/**
+ * Read field errors from an API validation response: either a list of
+ * `{ field, code, message }` or a map of field name to message
+ */
+function toProfileFieldErrors(errors: unknown): ProfileFieldError[] {
+  if (!errors || typeof errors !== 'object') return [];
+
+  const entries: Array<{ field?: string; code?: string; message?: string }> = Array.isArray(errors)
+    ? errors
+    : Object.entries(errors as Record<string, string>).map(([field, message]) => ({ field, message }));
+
+  return entries.flatMap((entry) => {
+    const field = entry.field && PROFILE_FIELDS[entry.field];
+    if (!field) return [];
+    return [{ field, code: entry.code || 'invalid', message: entry.message || `Invalid ${field}` }];
+  });
+}
+
+// ── Agent Linking Helpers ──────────────────────────────────────────
+
+/** Normalize a linked agent from the API; older servers return bare keys */
+function toLinkedAgent(agent: string | Record<string, any>): LinkedAgent {
+  if (typeof agent === 'string') {
+    return { agentPubKey: agent, isRevoked: false };
+  }
+  const linkedAt = agent.linked_at ?? agent.linkedAt;
+  return {
+    agentPubKey: agent.agent_pub_key ?? agent.agentPubKey,
+    linkedAt: linkedAt != null ? toIsoTime(linkedAt) : undefined,
+    isRevoked: Boolean(agent.is_revoked ?? agent.isRevoked ?? agent.revoked_at),
+  };
+}
+
+// ── Sign It Helpers ────────────────────────────────────────────────
+
+/** Map an API or Vault signing response to a SignResult */
+function normalizeSignResult(data: Record<string, any>, signingMode: 'remote' | 'ipc'): SignResult {
+  return {
+    success: true,
+    fileHash: data.file_hash,
+    signature: data.signature || null,
+    agentPubKey: data.agent_pub_key,
+    signedAt: data.signed_at ? toIsoTime(data.signed_at) : new Date().toISOString(),
+    actionHash: data.action_hash || null,
+    signingMode,
+  };
+}
+
+/** Map a signature from the API to a SignatureRecord */
+function toSignatureRecord(data: Record<string, any>): SignatureRecord {
+  return {
+    actionHash: data.action_hash,
+    fileHash: data.file_hash,
+    signer: data.signer,
+    signerDid: data.signer_did ?? undefined,
+    signedAt: toIsoTime(data.signed_at),
+    intent: data.intent ?? undefined,
+    aiGeneration: data.ai_generation ?? undefined,
+    contentRights: data.content_rights ?? undefined,
+    revoked: Boolean(data.revoked),
+    revokedAt: data.revoked_at != null ? toIsoTime(data.revoked_at) : null,
+    revocationReason: data.revocation_reason ?? null,
+  };
+}
+
+// ── Redirect Utilities ─────────────────────────────────────────────
+
+/** Remove the OAuth response parameters from the address bar */
+function stripCallbackParams(): void {
+  const url = new URL(window.location.href);
+  CALLBACK_PARAMS.forEach((param) => url.searchParams.delete(param));
+  if (url.href !== window.location.href) {
+    window.history.replaceState(window.history.state, '', url.href);
+  }
+}
+
+/** Parse stored login state, ignoring entries from a different login attempt */
+function parseLoginState(value: string | null, state: string): StoredLoginState | null {
+  if (!value) return null;
+  try {
+    const loginState = JSON.parse(value) as StoredLoginState;
+    return loginState.state === state ? loginState : null;
+  } catch {
+    return null;
+  }
+}
+
 // ── Main Class ─────────────────────────────────────────────────────
 
 /**
@@ -132,16 +841,42 @@ function base64UrlEncode(buffer: ArrayBuffer): string {
  * auth.login();
  *
  * // Handle callback (on your redirect URI page)
- * await auth.handleCallback();
+ * const { user, returnTo } = await auth.handleCallback();
  *
  * // Get current user
  * const user = auth.getUser();
  * ```
  */
 export class FlowstaAuth {
-  private config: Required<FlowstaAuthConfig>;
+  /**
+   * Resolves once the stored session has been restored.
+   * Only needs to be awaited with asynchronous storage such as IndexedDB.
+   */
+  readonly ready: Promise<void>;
+
+  private config: ResolvedConfig;
   private accessToken: string | null = null;
+  private refreshToken: string | null = null;
+  private expiresAt: number | null = null;
   private user: FlowstaUser | null = null;
+  private idToken: string | null = null;
+  private idTokenClaims: IdTokenClaims | null = null;
+  private grantedScopes: string[] | null = null;
+  private jwks: JwksCache | null = null;
+  private verifyCache: ResponseCache<FileVerification> | null;
+  private linkedAgentsCache: ResponseCache<LinkedAgent[]>;
+  private refreshPromise: Promise<string> | null = null;
+  /** Bumped whenever the session is cleared, so late refresh responses can tell they are stale */
+  private sessionGeneration = 0;
+  private refreshTimer: ReturnType<typeof setTimeout> | null = null;
+  private expiryTimers: Array<ReturnType<typeof setTimeout>> = [];
+  private lastError: string | null = null;
+  private listeners = new Set<AuthStateListener>();
+  private readonly tabId = generateRandomString(16);
+  private syncChannel: BroadcastChannel | null = null;
+  private storageListener: ((event: StorageEvent) => void) | null = null;
+  private vaultWatchers = new Set<() => void>();
+  private destroyed = false;
 
   constructor(config: FlowstaAuthConfig) {
     this.config = {
@@ -150,147 +885,659 @@ export class FlowstaAuth {
       scopes: config.scopes || ['openid', 'email', 'display_name'],
       loginUrl: config.loginUrl || 'https://login.flowsta.com',
       apiUrl: config.apiUrl || 'https://auth-api.flowsta.com',
+      ipcUrl: config.ipcUrl || 'http://127.0.0.1:27777',
+      appName: config.appName || (typeof window !== 'undefined' ? window.location.hostname : ''),
+      issuer: config.issuer,
+      discovery: config.discovery ?? false,
+      endpoints: config.endpoints || {},
+      autoRefresh: config.autoRefresh ?? true,
+      refreshLeeway: config.refreshLeeway ?? 60,
+      expiryWarning: config.expiryWarning ?? 120,
+      storage: config.storage || localStorageAdapter(),
+      transientStorage: config.transientStorage || sessionStorageAdapter(),
+      syncTabs: config.syncTabs ?? true,
+      verifyCache: config.verifyCache ?? false,
+      linkedAgentsTtl: config.linkedAgentsTtl ?? 300,
     };
 
-    // Restore session from localStorage
-    this.restoreSession();
+    this.verifyCache = this.config.verifyCache
+      ? new ResponseCache(this.config.verifyCache === true ? {} : this.config.verifyCache)
+      : null;
+    this.linkedAgentsCache = new ResponseCache({ ttl: this.config.linkedAgentsTtl, maxEntries: 100 });
+
+    // Restore session from storage
+    this.ready = this.restoreSession();
+
+    // Only browser tabs have peers; on a server every request would share one channel
+    if (this.config.syncTabs && typeof window !== 'undefined') {
+      this.startTabSync();
+    }
   }
 
   /**
    * Redirect user to Flowsta login page
    * User will be redirected back to redirectUri after authentication
+   *
+   * @example
+   * ```typescript
+   * // Come back to the current page after login
+   * await auth.login({ returnTo: window.location.href, appState: { tab: 'billing' } });
+   * ```
    */
-  async login(): Promise<void> {
-    const { verifier, challenge } = await generatePKCEPair();
-    const state = generateRandomString(32);
-
-    // Store PKCE verifier and state for callback
-    sessionStorage.setItem('flowsta_code_verifier', verifier);
-    sessionStorage.setItem('flowsta_state', state);
+  async login<TAppState = unknown>(options: LoginOptions<TAppState> = {}): Promise<void> {
+    return this.reportErrors(async () => {
+      const request = await this.createAuthorizationRequest();
+
+      // Store PKCE verifier, state and nonce for callback
+      await this.config.transientStorage.setItem(STORAGE_KEYS.codeVerifier, request.verifier);
+      await this.config.transientStorage.setItem(STORAGE_KEYS.state, request.state);
+      await this.config.transientStorage.setItem(STORAGE_KEYS.nonce, request.nonce);
+
+      // App state is bound to this request's OAuth state
+      const loginState: StoredLoginState = {
+        state: request.state,
+        returnTo: options.returnTo,
+        appState: options.appState,
+      };
+      await this.config.transientStorage.setItem(STORAGE_KEYS.loginState, JSON.stringify(loginState));
 
-    const params = new URLSearchParams({
-      client_id: this.config.clientId,
-      redirect_uri: this.config.redirectUri,
-      response_type: 'code',
-      scope: this.config.scopes.join(' '),
-      state: state,
-      code_challenge: challenge,
-      code_challenge_method: 'S256',
+      window.location.href = request.url;
     });
-
-    window.location.href = `${this.config.loginUrl}/login?${params.toString()}`;
   }
 
   /**
-   * Handle OAuth callback after user authentication
-   * Call this on your redirect URI page
+   * Log in through a popup window instead of a full-page redirect,
+   * keeping the current page (and any unsaved state) intact.
+   *
+   * Call this directly from a click handler, otherwise the browser may
+   * block the popup. The redirect URI page must call
+   * `handlePopupCallback()` when it is loaded inside the popup.
+   *
+   * @example
+   * ```typescript
+   * button.onclick = async () => {
+   *   const user = await auth.loginWithPopup();
+   *   console.log('Logged in as:', user.displayName);
+   * };
+   * ```
+   *
    * @returns The authenticated user
+   * @throws {PopupBlockedError} The browser blocked the popup
+   * @throws {PopupClosedError} The user closed the popup before logging in
+   * @throws {FlowstaAuthError} Timeout ('timeout'), OAuth or token errors
    */
-  async handleCallback(): Promise<FlowstaUser> {
-    const params = new URLSearchParams(window.location.search);
-
-    // Check for error
-    const error = params.get('error');
-    if (error) {
-      const description = params.get('error_description') || error;
-      throw new Error(description);
-    }
-
-    // Get authorization code
-    const code = params.get('code');
-    if (!code) {
-      throw new Error('No authorization code received');
-    }
-
-    // Verify state (CSRF protection)
-    const state = params.get('state');
-    const storedState = sessionStorage.getItem('flowsta_state');
-    if (!state || state !== storedState) {
-      throw new Error('Invalid state parameter - possible CSRF attack');
-    }
-
-    // Get PKCE verifier
-    const codeVerifier = sessionStorage.getItem('flowsta_code_verifier');
-    if (!codeVerifier) {
-      throw new Error('Missing PKCE code verifier');
-    }
+  async loginWithPopup(options: PopupLoginOptions = {}): Promise<FlowstaUser> {
+    return this.reportErrors(async () => {
+      // Open the popup before any await so it counts as part of the user gesture
+      const popup = options.popup || openPopup('flowsta_login');
+      if (!popup) {
+        throw new PopupBlockedError();
+      }
 
-    // Exchange code for token
-    const tokenResponse = await fetch(`${this.config.apiUrl}/oauth/token`, {
-      method: 'POST',
-      headers: { 'Content-Type': 'application/json' },
-      body: JSON.stringify({
-        grant_type: 'authorization_code',
-        code,
-        redirect_uri: this.config.redirectUri,
-        client_id: this.config.clientId,
-        code_verifier: codeVerifier,
-      }),
+      try {
+        const request = await this.createAuthorizationRequest({}, undefined, true);
+        popup.location.href = request.url;
+
+        const message = await this.waitForAuthorizationResponse(popup, request.state, options.timeout ?? 300000, true);
+        if (message.error) {
+          throw authorizationError(message.error, message.error_description);
+        }
+        if (!message.code) {
+          throw new FlowstaAuthError('No authorization code received', 'missing_code');
+        }
+
+        const tokens = await this.exchangeCode(message.code, request.verifier);
+        return await this.completeLogin(tokens, request.nonce, request.scopes);
+      } catch (error) {
+        // Don't leave a blank popup behind
+        popup.close();
+        throw error;
+      }
     });
+  }
 
-    if (!tokenResponse.ok) {
-      const errorData = await tokenResponse.json();
-      throw new Error(errorData.error_description || 'Token exchange failed');
-    }
-
-    const { access_token, refresh_token } = await tokenResponse.json();
-
-    // Clean up PKCE storage
-    sessionStorage.removeItem('flowsta_code_verifier');
-    sessionStorage.removeItem('flowsta_state');
+  /**
+   * Restore the session without any visible UI if the user is still
+   * signed in at login.flowsta.com.
+   *
+   * Runs an authorization request with `prompt=none` in a hidden iframe
+   * (or a popup), so the redirect URI page must call
+   * `handlePopupCallback()` when `isPopupCallback()` returns true.
+   *
+   * Browsers that block third-party cookies may prevent the iframe from
+   * seeing the login.flowsta.com session; use `mode: 'popup'` from a click
+   * handler there.
+   *
+   * @returns The authenticated user, or null if the user has to log in
+   *   or grant consent interactively
+   */
+  async checkSession(options: SilentAuthOptions = {}): Promise<FlowstaUser | null> {
+    return this.reportErrors(async () => {
+      const mode = options.mode || 'iframe';
+      const timeout = options.timeout ?? 10000;
+
+      // Open the popup before any await so it counts as part of the user gesture
+      const popup = mode === 'popup' ? openPopup('flowsta_silent_auth') : null;
+      if (mode === 'popup' && !popup) {
+        throw new PopupBlockedError();
+      }
 
-    // Fetch user info
-    const userResponse = await fetch(`${this.config.apiUrl}/oauth/userinfo`, {
-      headers: { Authorization: `Bearer ${access_token}` },
+      try {
+        const request = await this.createAuthorizationRequest({ prompt: 'none' }, undefined, true);
+
+        let message: PopupMessage;
+        if (popup) {
+          popup.location.href = request.url;
+          message = await this.waitForAuthorizationResponse(popup, request.state, timeout, true);
+        } else {
+          const iframe = document.createElement('iframe');
+          iframe.style.display = 'none';
+          iframe.setAttribute('aria-hidden', 'true');
+          iframe.src = request.url;
+          document.body.appendChild(iframe);
+          try {
+            message = await this.waitForAuthorizationResponse(iframe.contentWindow!, request.state, timeout, false);
+          } finally {
+            iframe.remove();
+          }
+        }
+
+        if (message.error) {
+          if (isInteractionRequired(message.error)) {
+            return null;
+          }
+          throw authorizationError(message.error, message.error_description);
+        }
+        if (!message.code) {
+          throw new FlowstaAuthError('No authorization code received', 'missing_code');
+        }
+
+        const tokens = await this.exchangeCode(message.code, request.verifier);
+        return await this.completeLogin(tokens, request.nonce, request.scopes);
+      } catch (error) {
+        // Don't leave a blank popup behind
+        popup?.close();
+        throw error;
+      }
     });
+  }
 
-    if (!userResponse.ok) {
-      throw new Error('Failed to fetch user info');
-    }
-
-    const userData = await userResponse.json();
-
-    // Detect vault signing mode
-    const vault = await this.detectVault();
+  /**
+   * Get a valid access token without any visible UI.
+   *
+   * Returns the current token if it is still valid, refreshes it with the
+   * refresh token if possible, and otherwise falls back to `checkSession()`.
+   *
+   * @throws {LoginRequiredError} The user has to log in interactively
+   */
+  async getTokenSilently(options: SilentAuthOptions = {}): Promise<string> {
+    await this.ready;
 
-    // Store session
-    this.accessToken = access_token;
-    this.user = {
-      id: userData.sub || userData.id,
-      email: userData.email,
-      username: userData.preferred_username,
-      displayName: userData.display_name || userData.name,
-      profilePicture: userData.picture || userData.profile_picture,
-      agentPubKey: userData.agent_pub_key,
-      did: userData.did,
-      signingMode: vault.running ? 'ipc' : 'remote',
-    };
+    if (this.accessToken && !this.isTokenExpiring()) {
+      return this.accessToken;
+    }
 
-    localStorage.setItem('flowsta_access_token', access_token);
-    localStorage.setItem('flowsta_user', JSON.stringify(this.user));
-    if (refresh_token) {
-      localStorage.setItem('flowsta_refresh_token', refresh_token);
+    if (this.refreshToken) {
+      try {
+        return await this.refreshAccessToken();
+      } catch {
+        // Refresh token rejected, try the login.flowsta.com session instead
+      }
     }
 
-    return this.user;
+    const user = await this.checkSession(options);
+    if (!user || !this.accessToken) {
+      throw new LoginRequiredError();
+    }
+    return this.accessToken;
   }
 
   /**
-   * Log out the current user
+   * Forward the OAuth response to the window that called `loginWithPopup()`
+   * or `checkSession()`, then close the popup. Call this on your redirect
+   * URI page instead of `handleCallback()` when `isPopupCallback()` returns
+   * true.
+   *
+   * @example
+   * ```typescript
+   * if (auth.isPopupCallback()) {
+   *   auth.handlePopupCallback();
+   * } else {
+   *   await auth.handleCallback();
+   * }
+   * ```
    */
-  logout(): void {
-    this.accessToken = null;
-    this.user = null;
-    localStorage.removeItem('flowsta_access_token');
-    localStorage.removeItem('flowsta_user');
-    localStorage.removeItem('flowsta_refresh_token');
+  handlePopupCallback(): void {
+    const target = getCallbackTarget();
+    if (!target) {
+      throw new FlowstaAuthError('Not running in a Flowsta login popup', 'authorization_failed');
+    }
+
+    const params = new URLSearchParams(window.location.search);
+    const message: PopupMessage = {
+      type: POPUP_MESSAGE_TYPE,
+      code: params.get('code'),
+      state: params.get('state'),
+      error: params.get('error'),
+      error_description: params.get('error_description'),
+    };
+
+    // The redirect URI shares the opener's origin, so never post to any other origin
+    target.postMessage(message, window.location.origin);
+    if (target === window.opener) {
+      window.close();
+    }
   }
 
   /**
-   * Check if user is authenticated
+   * Check whether the current page was opened by `loginWithPopup()` or
+   * loaded in the hidden iframe of `checkSession()`
    */
-  isAuthenticated(): boolean {
-    return !!this.accessToken && !!this.user;
+  isPopupCallback(): boolean {
+    return getCallbackTarget() !== null;
+  }
+
+  /**
+   * Handle OAuth callback after user authentication
+   * Call this on your redirect URI page
+   *
+   * The OAuth parameters are removed from the address bar, so reloading the
+   * page doesn't replay the callback.
+   *
+   * @returns The authenticated user and the `returnTo`/`appState` passed to `login()`
+   *
+   * @example
+   * ```typescript
+   * const { user, returnTo } = await auth.handleCallback();
+   * window.location.replace(returnTo || '/dashboard');
+   * ```
+   */
+  async handleCallback<TAppState = unknown>(): Promise<CallbackResult<TAppState>> {
+    return this.reportErrors(async () => {
+      const params = new URLSearchParams(window.location.search);
+      stripCallbackParams();
+
+      // Check for error
+      const error = params.get('error');
+      if (error) {
+        throw authorizationError(error, params.get('error_description'));
+      }
+
+      // Get authorization code
+      const code = params.get('code');
+      if (!code) {
+        throw new FlowstaAuthError('No authorization code received', 'missing_code');
+      }
+
+      // Verify state (CSRF protection)
+      const state = params.get('state');
+      const storedState = await this.config.transientStorage.getItem(STORAGE_KEYS.state);
+      if (!state || state !== storedState) {
+        throw new InvalidStateError();
+      }
+
+      // Get PKCE verifier
+      const codeVerifier = await this.config.transientStorage.getItem(STORAGE_KEYS.codeVerifier);
+      if (!codeVerifier) {
+        throw new MissingVerifierError();
+      }
+
+      // Exchange code for token
+      const tokens = await this.exchangeCode(code, codeVerifier);
+      const nonce = await this.config.transientStorage.getItem(STORAGE_KEYS.nonce);
+      const loginState = parseLoginState(
+        await this.config.transientStorage.getItem(STORAGE_KEYS.loginState),
+        state,
+      );
+
+      // Clean up PKCE storage
+      await this.config.transientStorage.removeItem(STORAGE_KEYS.codeVerifier);
+      await this.config.transientStorage.removeItem(STORAGE_KEYS.state);
+      await this.config.transientStorage.removeItem(STORAGE_KEYS.nonce);
+      await this.config.transientStorage.removeItem(STORAGE_KEYS.loginState);
+
+      const user = await this.completeLogin(tokens, nonce);
+      return {
+        user,
+        returnTo: loginState?.returnTo,
+        appState: loginState?.appState as TAppState | undefined,
+      };
+    });
+  }
+
+  /**
+   * Log out the current user
+   *
+   * The local session is cleared immediately. Token revocation is
+   * best-effort: if it fails, the user is still logged out locally.
+   *
+   * @example
+   * ```typescript
+   * // Log out here and at login.flowsta.com, then come back to the home page
+   * await auth.logout({ federated: true, returnTo: 'https://yoursite.com/' });
+   * ```
+   */
+  async logout(options: LogoutOptions = {}): Promise<void> {
+    const { revokeTokens = true, federated = false, returnTo } = options;
+    const accessToken = this.accessToken;
+    const refreshToken = this.refreshToken;
+    const idToken = this.idToken;
+
+    this.clearSession();
+    this.emit({ type: 'logout' });
+    this.broadcast('logout');
+
+    // A refresh in flight revokes whatever it receives once it sees the session is gone
+    await this.refreshPromise?.catch(() => {});
+
+    if (revokeTokens) {
+      // Revoke the refresh token first so it can't mint new access tokens
+      if (refreshToken) {
+        await this.revokeToken(refreshToken, 'refresh_token').catch(() => {});
+      }
+      if (accessToken) {
+        await this.revokeToken(accessToken, 'access_token').catch(() => {});
+      }
+    }
+
+    if (federated) {
+      const { endpoints } = await this.getEndpoints();
+      const params = new URLSearchParams({ client_id: this.config.clientId });
+      if (idToken) {
+        params.set('id_token_hint', idToken);
+      }
+      if (returnTo) {
+        params.set('post_logout_redirect_uri', returnTo);
+      }
+      window.location.href = `${endpoints.endSession}?${params.toString()}`;
+    } else if (returnTo) {
+      window.location.href = returnTo;
+    }
+  }
+
+  /**
+   * Revoke an access or refresh token at the server (RFC 7009).
+   *
+   * Does not change the local session; use `logout()` for that.
+   *
+   * @param token The token to revoke
+   * @param tokenTypeHint Which kind of token it is
+   */
+  async revokeToken(token: string, tokenTypeHint?: 'access_token' | 'refresh_token'): Promise<void> {
+    const body = new URLSearchParams({ token, client_id: this.config.clientId });
+    if (tokenTypeHint) {
+      body.set('token_type_hint', tokenTypeHint);
+    }
+
+    const { endpoints } = await this.getEndpoints();
+    const response = await safeFetch(endpoints.revocation, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/x-www-form-urlencoded' },
+      body: body.toString(),
+    });
+
+    if (!response.ok) {
+      throw await errorFromResponse(response, 'request_failed', 'Token revocation failed');
+    }
+  }
+
+  /**
+   * Stop background token refresh and cross-tab synchronization.
+   * Call this when the instance is no longer needed.
+   */
+  destroy(): void {
+    this.destroyed = true;
+    this.cancelTokenTimers();
+    this.vaultWatchers.forEach((stop) => stop());
+    this.listeners.clear();
+    this.syncChannel?.close();
+    this.syncChannel = null;
+    if (this.storageListener) {
+      window.removeEventListener('storage', this.storageListener);
+      this.storageListener = null;
+    }
+  }
+
+  // ── Authorization Flow ───────────────────────────────────────────
+
+  /**
+   * Resolve the OAuth endpoints and issuer: defaults from loginUrl/apiUrl,
+   * then the discovery document (cached), then explicit overrides
+   */
+  private async getEndpoints(): Promise<ResolvedEndpoints> {
+    const { loginUrl, apiUrl, discovery } = this.config;
+    let endpoints = defaultEndpoints(loginUrl, apiUrl);
+    let issuer = this.config.issuer || apiUrl;
+
+    if (discovery) {
+      const url = typeof discovery === 'string' ? discovery : `${issuer}/.well-known/openid-configuration`;
+      const metadata = await fetchOpenIdConfiguration(url);
+      if (this.config.issuer && metadata.issuer !== this.config.issuer) {
+        throw new FlowstaAuthError(
+          `Discovered issuer "${metadata.issuer}" does not match "${this.config.issuer}"`,
+          'request_failed',
+        );
+      }
+      issuer = metadata.issuer;
+      endpoints = { ...endpoints, ...discoveredEndpoints(metadata) };
+    }
+
+    return { endpoints: { ...endpoints, ...this.config.endpoints }, issuer };
+  }
+
+  /**
+   * @param popup Whether the response comes back by `handlePopupCallback()`
+   *   from a popup or iframe rather than by a redirect
+   */
+  private async createAuthorizationRequest(
+    extraParams: Record<string, string> = {},
+    scopes: string[] = this.config.scopes,
+    popup = false,
+  ): Promise<AuthorizationRequest> {
+    const { endpoints } = await this.getEndpoints();
+    const { verifier, challenge } = await generatePKCEPair();
+    const state = `${popup ? POPUP_STATE_PREFIX : ''}${generateRandomString(32)}`;
+    const nonce = generateRandomString(32);
+
+    const params = { ...extraParams };
+    if (scopes.includes('openid')) {
+      params.nonce = nonce;
+    }
+
+    return {
+      url: this.buildAuthorizationUrl(endpoints.authorization, state, challenge, scopes, params),
+      state,
+      verifier,
+      nonce,
+      scopes,
+    };
+  }
+
+  private buildAuthorizationUrl(
+    authorizationEndpoint: string,
+    state: string,
+    challenge: string,
+    scopes: string[],
+    extraParams: Record<string, string> = {},
+  ): string {
+    const params = new URLSearchParams({
+      client_id: this.config.clientId,
+      redirect_uri: this.config.redirectUri,
+      response_type: 'code',
+      scope: scopes.join(' '),
+      state: state,
+      code_challenge: challenge,
+      code_challenge_method: 'S256',
+      ...extraParams,
+    });
+
+    return `${authorizationEndpoint}?${params.toString()}`;
+  }
+
+  private async exchangeCode(code: string, codeVerifier: string): Promise<TokenResponse> {
+    const { endpoints } = await this.getEndpoints();
+    const tokenResponse = await safeFetch(endpoints.token, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({
+        grant_type: 'authorization_code',
+        code,
+        redirect_uri: this.config.redirectUri,
+        client_id: this.config.clientId,
+        code_verifier: codeVerifier,
+      }),
+    });
+
+    if (!tokenResponse.ok) {
+      throw await errorFromResponse(tokenResponse, 'token_exchange_failed', 'Token exchange failed');
+    }
+
+    return tokenResponse.json();
+  }
+
+  /**
+   * Validate a token response, fetch the user and store the session
+   *
+   * @param requestedScopes Recorded as granted when the response has no `scope`
+   */
+  private async completeLogin(
+    tokens: TokenResponse,
+    nonce: string | null,
+    requestedScopes: string[] = this.config.scopes,
+  ): Promise<FlowstaUser> {
+    // Only refreshes skip the nonce check; a login without its stored nonce can't rule out a replay
+    if (tokens.id_token && !nonce) {
+      throw new FlowstaAuthError('No nonce stored for this login - cannot validate the ID token', 'invalid_id_token');
+    }
+
+    // Validate the ID token before trusting anything else in the response
+    const claims = await this.validateIdToken(tokens, nonce ?? undefined);
+
+    // Fetch user info
+    const { endpoints } = await this.getEndpoints();
+    const userResponse = await safeFetch(endpoints.userinfo, {
+      headers: { Authorization: `Bearer ${tokens.access_token}` },
+    });
+
+    if (!userResponse.ok) {
+      throw await errorFromResponse(userResponse, 'userinfo_failed', 'Failed to fetch user info');
+    }
+
+    const userData = await userResponse.json();
+
+    // The userinfo subject must be the user the ID token was issued for
+    if (claims && (userData.sub || userData.id) !== claims.sub) {
+      throw new FlowstaAuthError('User info does not match the ID token subject', 'invalid_id_token');
+    }
+
+    // Detect vault signing mode
+    const vault = await this.detectVault();
+
+    // Store session
+    this.user = {
+      ...toFlowstaUser(userData),
+      signingMode: signingModeFor(vault),
+    };
+    await this.config.storage.setItem(STORAGE_KEYS.user, JSON.stringify(this.user));
+    await this.storeTokens(tokens, requestedScopes);
+
+    // Linked agents are a nice-to-have; a failure must not fail the login.
+    // Stored directly: the 'login' event below announces the user
+    this.linkedAgentsCache.delete('');
+    const linkedAgents = await this.fetchLinkedAgents().catch(() => null);
+    if (linkedAgents) {
+      this.user = { ...this.user, linkedAgents };
+      await this.config.storage.setItem(STORAGE_KEYS.user, JSON.stringify(this.user));
+    }
+
+    this.lastError = null;
+    this.emit({ type: 'login', user: this.user });
+    this.broadcast('login');
+
+    return this.user;
+  }
+
+  /**
+   * Validate the ID token in a token response, if there is one
+   *
+   * @param nonce The nonce sent with the authorization request (omitted for refreshes)
+   */
+  private async validateIdToken(tokens: TokenResponse, nonce?: string): Promise<IdTokenClaims | null> {
+    if (!tokens.id_token) return null;
+
+    const { endpoints, issuer } = await this.getEndpoints();
+    if (!this.jwks || this.jwks.jwksUri !== endpoints.jwks) {
+      this.jwks = new JwksCache(endpoints.jwks);
+    }
+
+    return validateIdToken(tokens.id_token, this.jwks, {
+      issuer,
+      clientId: this.config.clientId,
+      nonce,
+    });
+  }
+
+  private waitForAuthorizationResponse(
+    source: Window,
+    state: string,
+    timeout: number,
+    isPopup: boolean,
+  ): Promise<PopupMessage> {
+    const expectedOrigin = new URL(this.config.redirectUri).origin;
+
+    return new Promise<PopupMessage>((resolve, reject) => {
+      const cleanup = () => {
+        window.removeEventListener('message', onMessage);
+        if (closedPoll) clearInterval(closedPoll);
+        clearTimeout(timer);
+      };
+
+      const onMessage = (event: MessageEvent) => {
+        // Only accept responses from our own window on the redirect URI's origin
+        if (event.origin !== expectedOrigin || event.source !== source) return;
+        const data = event.data as PopupMessage | undefined;
+        if (!data || data.type !== POPUP_MESSAGE_TYPE) return;
+
+        cleanup();
+        if (data.state !== state) {
+          reject(new InvalidStateError());
+          return;
+        }
+        resolve(data);
+      };
+
+      const closedPoll = isPopup
+        ? setInterval(() => {
+            if (source.closed) {
+              cleanup();
+              reject(new PopupClosedError());
+            }
+          }, 500)
+        : null;
+
+      const timer = setTimeout(() => {
+        cleanup();
+        if (isPopup) source.close();
+        reject(
+          new FlowstaAuthError(
+            isPopup ? 'Login popup timed out' : 'Silent authentication timed out',
+            'timeout',
+          ),
+        );
+      }, timeout);
+
+      window.addEventListener('message', onMessage);
+    });
+  }
+
+  /**
+   * Check if user is authenticated
+   *
+   * An expired access token only counts if it can still be refreshed.
+   */
+  isAuthenticated(): boolean {
+    if (!this.accessToken || !this.user) return false;
+    return !this.isTokenExpired() || !!this.refreshToken;
   }
 
   /**
@@ -307,6 +1554,59 @@ export class FlowstaAuth {
     return this.accessToken;
   }
 
+  /**
+   * Get the claims of the validated OpenID Connect ID token
+   *
+   * The token's signature, issuer, audience, expiry and nonce were checked
+   * when it was received. Returns null if the server did not issue one
+   * (e.g. without the 'openid' scope).
+   */
+  getIdTokenClaims(): IdTokenClaims | null {
+    return this.idTokenClaims;
+  }
+
+  /**
+   * Get an access token that is valid for at least `refreshLeeway` seconds.
+   *
+   * Refreshes the token with the stored refresh token first if it is
+   * about to expire. Concurrent callers share a single refresh request.
+   *
+   * @throws {NotAuthenticatedError} No session
+   * @throws {FlowstaAuthError} The refresh failed ('token_refresh_failed')
+   */
+  async getValidAccessToken(): Promise<string> {
+    await this.ready;
+
+    if (!this.accessToken) {
+      throw new NotAuthenticatedError();
+    }
+    if (!this.isTokenExpiring()) {
+      return this.accessToken;
+    }
+    return this.refreshAccessToken();
+  }
+
+  /**
+   * Exchange the stored refresh token for a new access token.
+   *
+   * If the server rotates the refresh token, the new one replaces the
+   * stored one. If the server rejects the refresh token, the session is
+   * cleared and the user is logged out. Network and server errors keep the
+   * session, so a later attempt can succeed.
+   *
+   * @returns The new access token
+   */
+  async refreshAccessToken(): Promise<string> {
+    if (this.refreshPromise) {
+      return this.refreshPromise;
+    }
+
+    this.refreshPromise = this.withRefreshLock(() => this.performRefresh()).finally(() => {
+      this.refreshPromise = null;
+    });
+    return this.refreshPromise;
+  }
+
   /**
    * Get current auth state
    */
@@ -315,9 +1615,298 @@ export class FlowstaAuth {
       isAuthenticated: this.isAuthenticated(),
       user: this.user,
       accessToken: this.accessToken,
+      expiresAt: this.isAuthenticated() ? this.expiresAt : null,
+      scopes: this.getGrantedScopes(),
       isLoading: false,
-      error: null,
+      error: this.lastError,
+    };
+  }
+
+  /**
+   * Subscribe to auth state changes: login, logout, token refresh,
+   * session expiry, errors and Vault detection.
+   *
+   * @example
+   * ```typescript
+   * const unsubscribe = auth.onAuthStateChange((event, state) => {
+   *   if (event.type === 'sessionExpired') showLoginPrompt();
+   *   renderHeader(state.user);
+   * });
+   * ```
+   *
+   * @returns A function that removes the listener
+   */
+  onAuthStateChange(listener: AuthStateListener): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  // ── Profile ──────────────────────────────────────────────────────
+
+  /**
+   * Re-fetch the user's profile from /oauth/userinfo, so changes made on
+   * Flowsta since login (display name, avatar, ...) show up. Emits
+   * 'userUpdated' if anything changed.
+   *
+   * @throws {NotAuthenticatedError} No session
+   */
+  async refreshUser(): Promise<FlowstaUser> {
+    await this.ready;
+    if (!this.user) {
+      throw new NotAuthenticatedError();
+    }
+
+    const { endpoints } = await this.getEndpoints();
+    const response = await this.fetch(endpoints.userinfo);
+
+    if (!response.ok) {
+      throw await errorFromResponse(response, 'userinfo_failed', 'Failed to fetch user info');
+    }
+
+    const profile = toFlowstaUser(await response.json());
+    // The user may have logged out while the request was in flight
+    if (!this.user) {
+      throw new NotAuthenticatedError();
+    }
+    if (profile.id !== this.user.id) {
+      throw new FlowstaAuthError('User info does not match the logged-in user', 'userinfo_failed');
+    }
+
+    await this.updateUser({ ...this.user, ...profile });
+    return this.user;
+  }
+
+  /**
+   * Change the user's display name, username or profile picture. Requires
+   * the 'update_profile' scope.
+   *
+   * @example
+   * ```typescript
+   * try {
+   *   await flowsta.updateProfile({ displayName: 'Ada', username: 'ada' });
+   * } catch (error) {
+   *   if (error instanceof ProfileValidationError) {
+   *     for (const { field, message } of error.fields) showFieldError(field, message);
+   *   }
+   * }
+   * ```
+   *
+   * @returns The updated user
+   * @throws {ProfileValidationError} A field is empty or malformed, or the API rejected it (e.g. a username that is taken)
+   * @throws {MissingScopeError} The 'update_profile' scope was not granted
+   * @throws {FlowstaAuthError} 'invalid_profile' if `update` has no fields
+   */
+  async updateProfile(update: ProfileUpdate): Promise<FlowstaUser> {
+    await this.ready;
+    this.requireScopes('update_profile');
+
+    if (update.displayName === undefined && update.username === undefined && update.profilePicture === undefined) {
+      // Not a problem with any one field, so no ProfileValidationError
+      throw new FlowstaAuthError('Nothing to update', 'invalid_profile');
+    }
+    const fieldErrors = validateProfileUpdate(update);
+    if (fieldErrors.length > 0) {
+      throw new ProfileValidationError(fieldErrors);
+    }
+
+    const response = await this.fetch(`${this.config.apiUrl}/api/v1/profile`, {
+      method: 'PATCH',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({
+        display_name: update.displayName,
+        username: update.username,
+        profile_picture: update.profilePicture,
+      }),
+    });
+
+    if (response.status === 400 || response.status === 422) {
+      const data = await response.clone().json().catch(() => ({}));
+      const fields = toProfileFieldErrors(data.errors);
+      if (fields.length > 0) {
+        throw new ProfileValidationError(fields, {
+          status: response.status,
+          oauthError: typeof data.error === 'string' ? data.error : undefined,
+          errorDescription: data.error_description,
+        });
+      }
+    }
+    if (!response.ok) {
+      throw await errorFromResponse(response, 'request_failed', 'Failed to update profile');
+    }
+
+    // The API answers with the updated profile; older versions send nothing
+    const data = await response.json().catch(() => null);
+    const profile = data && (data.sub || data.id) ? toFlowstaUser(data) : {};
+    const changes = Object.fromEntries(
+      Object.entries({ ...update, ...profile }).filter(([, value]) => value !== undefined),
+    );
+    if (!this.user) {
+      throw new NotAuthenticatedError();
+    }
+
+    await this.updateUser({ ...this.user, ...changes });
+    return this.user;
+  }
+
+  /** Store a changed user and tell listeners and other tabs */
+  private async updateUser(user: FlowstaUser): Promise<void> {
+    if (JSON.stringify(user) === JSON.stringify(this.user)) return;
+
+    this.user = user;
+    await this.config.storage.setItem(STORAGE_KEYS.user, JSON.stringify(user));
+    this.emit({ type: 'userUpdated', user });
+    this.broadcast('userUpdated');
+  }
+
+  // ── Scopes ───────────────────────────────────────────────────────
+
+  /**
+   * Check whether the current session was granted a scope
+   *
+   * @example
+   * ```typescript
+   * if (!auth.hasScope('sign')) {
+   *   await auth.requestAdditionalScopes(['sign']);
+   * }
+   * ```
+   */
+  hasScope(scope: string): boolean {
+    return this.isAuthenticated() && (this.grantedScopes ?? []).includes(scope);
+  }
+
+  /**
+   * Get the scopes granted to the current session (empty when logged out)
+   */
+  getGrantedScopes(): string[] {
+    return this.isAuthenticated() ? [...(this.grantedScopes ?? [])] : [];
+  }
+
+  /**
+   * Ask the user to grant more scopes without losing the current page.
+   *
+   * Runs an authorization request for the already granted scopes plus
+   * `scopes` in a popup (so, like `loginWithPopup()`, call it from a click
+   * handler) and replaces the session with the new tokens.
+   *
+   * @returns The scopes granted to the new session
+   * @throws {MissingScopeError} The user did not grant every requested scope
+   */
+  async requestAdditionalScopes(scopes: string[], options: PopupLoginOptions = {}): Promise<string[]> {
+    return this.reportErrors(async () => {
+      const missing = scopes.filter((scope) => !this.hasScope(scope));
+      if (this.isAuthenticated() && missing.length === 0) {
+        return this.getGrantedScopes();
+      }
+
+      // Open the popup before any await so it counts as part of the user gesture
+      const popup = options.popup || openPopup('flowsta_consent');
+      if (!popup) {
+        throw new PopupBlockedError();
+      }
+
+      try {
+        const requested = [...new Set([...this.config.scopes, ...(this.grantedScopes ?? []), ...scopes])];
+        const request = await this.createAuthorizationRequest({}, requested, true);
+        popup.location.href = request.url;
+
+        const message = await this.waitForAuthorizationResponse(popup, request.state, options.timeout ?? 300000, true);
+        if (message.error) {
+          throw authorizationError(message.error, message.error_description);
+        }
+        if (!message.code) {
+          throw new FlowstaAuthError('No authorization code received', 'missing_code');
+        }
+
+        const tokens = await this.exchangeCode(message.code, request.verifier);
+        await this.completeLogin(tokens, request.nonce, request.scopes);
+
+        const stillMissing = scopes.filter((scope) => !this.hasScope(scope));
+        if (stillMissing.length > 0) {
+          throw new MissingScopeError(stillMissing);
+        }
+        return this.getGrantedScopes();
+      } catch (error) {
+        // Don't leave a blank popup behind
+        popup.close();
+        throw error;
+      }
+    });
+  }
+
+  /** Throw a MissingScopeError unless every scope was granted */
+  private requireScopes(...scopes: string[]): void {
+    if (!this.isAuthenticated()) {
+      throw new NotAuthenticatedError();
+    }
+    const missing = scopes.filter((scope) => !this.hasScope(scope));
+    if (missing.length > 0) {
+      throw new MissingScopeError(missing);
+    }
+  }
+
+  // ── Authenticated Requests ───────────────────────────────────────
+
+  /**
+   * `fetch` with the user's access token attached as a bearer token.
+   *
+   * - The token is refreshed first if it is about to expire
+   * - A 401 response triggers one token refresh and retry
+   * - A 429 response is retried once after its `Retry-After` delay
+   * - `signal` aborts the request and any wait before a retry
+   *
+   * Like `fetch`, other error responses are returned, not thrown. Only
+   * send requests to APIs that should receive the user's token.
+   *
+   * @example
+   * ```typescript
+   * const response = await auth.fetch('https://api.example.com/me/orders', {
+   *   signal: controller.signal,
+   * });
+   * const orders = await response.json();
+   * ```
+   *
+   * @throws {NotAuthenticatedError} No session (unless `requireAuth: false`)
+   * @throws {NetworkError} The request never reached the server
+   */
+  async fetch(input: RequestInfo | URL, init: FlowstaFetchInit = {}): Promise<Response> {
+    await this.ready;
+
+    const { requireAuth = true, maxRetryAfter = 60, ...requestInit } = init;
+    const request = new Request(input, requestInit);
+
+    const send = (token: string | null): Promise<Response> => {
+      const attempt = request.clone();
+      if (token) attempt.headers.set('Authorization', `Bearer ${token}`);
+      return safeFetch(attempt);
     };
+
+    let token = requireAuth
+      ? await this.getValidAccessToken()
+      : await this.getValidAccessToken().catch(() => null);
+    let response = await send(token);
+
+    if (response.status === 401 && token) {
+      // Another request may have refreshed the token while this one was in flight
+      const refreshed = token !== this.accessToken && this.accessToken
+        ? this.accessToken
+        : await this.refreshAccessToken().catch(() => null);
+      if (refreshed) {
+        token = refreshed;
+        response = await send(token);
+      }
+    }
+
+    if (response.status === 429) {
+      const retryAfter = parseRetryAfter(response.headers.get('Retry-After'));
+      if (retryAfter !== undefined && retryAfter <= maxRetryAfter) {
+        await delay(retryAfter * 1000, request.signal);
+        response = await send(token);
+      }
+    }
+
+    return response;
   }
 
   // ── Vault Detection ──────────────────────────────────────────────
@@ -330,63 +1919,247 @@ export class FlowstaAuth {
    *
    * @returns Detection result with running status and agent info
    */
-  async detectVault(): Promise<VaultDetectionResult> {
-    try {
-      const controller = new AbortController();
-      const timeout = setTimeout(() => controller.abort(), 2000);
-
-      const response = await fetch('http://127.0.0.1:27777/status', {
-        signal: controller.signal,
-      });
-      clearTimeout(timeout);
+  async detectVault(options: { ipcUrl?: string } = {}): Promise<VaultDetectionResult> {
+    const vault = await probeVault(options.ipcUrl || this.config.ipcUrl);
+    if (vault.running) {
+      this.emit({ type: 'vaultDetected', vault });
+    }
+    return vault;
+  }
 
-      if (!response.ok) {
-        return { running: false };
+  /**
+   * Watch Flowsta Vault and get notified when it starts, stops, is locked
+   * or unlocked, or switches agents. The current user's `signingMode`
+   * follows along ('ipc' while the Vault is running and unlocked).
+   *
+   * While the Vault is not running, probes back off exponentially up to
+   * `maxIntervalMs`.
+   *
+   * @example
+   * ```typescript
+   * const stop = auth.watchVault((event) => {
+   *   if (event.type === 'unlocked') showBadge('Signing with Flowsta Vault');
+   *   if (event.type === 'stopped' || event.type === 'locked') hideBadge();
+   * });
+   *
+   * // Later
+   * stop();
+   * ```
+   *
+   * @returns A function that stops watching
+   */
+  watchVault(listener: (event: VaultEvent) => void, options: WatchVaultOptions = {}): () => void {
+    const intervalMs = options.intervalMs ?? 5000;
+    const maxIntervalMs = Math.max(options.maxIntervalMs ?? 60000, intervalMs);
+    const ipcUrl = options.ipcUrl || this.config.ipcUrl;
+
+    let previous: VaultDetectionResult = { running: false };
+    let delay = intervalMs;
+    let timer: ReturnType<typeof setTimeout> | null = null;
+    let stopped = false;
+
+    const poll = async () => {
+      const vault = await probeVault(ipcUrl);
+      if (stopped) return;
+
+      for (const type of vaultTransitions(previous, vault)) {
+        try {
+          listener({ type, vault, previous });
+        } catch {
+          // A failing listener must not stop the watcher
+        }
       }
+      // Also corrects a stale mode on the first probe, when there may be no transition
+      await this.updateSigningMode(vault);
+      if (stopped) return;
 
-      const data = await response.json();
-      return {
-        running: true,
-        agentPubKey: data.agent_pub_key || data.agentPubKey,
-        did: data.did,
-      };
+      previous = vault;
+      delay = vault.running ? intervalMs : Math.min(delay * 2, maxIntervalMs);
+      timer = setTimeout(poll, delay);
+    };
+
+    const stop = () => {
+      stopped = true;
+      if (timer !== null) clearTimeout(timer);
+      this.vaultWatchers.delete(stop);
+    };
+    this.vaultWatchers.add(stop);
+
+    poll();
+    return stop;
+  }
+
+  /** Keep the user's signing mode in step with the Vault */
+  private async updateSigningMode(vault: VaultDetectionResult): Promise<void> {
+    const signingMode = signingModeFor(vault);
+    if (!this.user || this.user.signingMode === signingMode) return;
+
+    this.user = { ...this.user, signingMode };
+    this.emit({ type: 'signingModeChanged', signingMode, vault });
+    try {
+      await this.config.storage.setItem(STORAGE_KEYS.user, JSON.stringify(this.user));
     } catch {
-      return { running: false };
+      // Re-detected on the next probe or login
     }
   }
 
-  // ── Agent Linking ────────────────────────────────────────────────
+  // ── Agent Linking ────────────────────────────────────────────────
+
+  /**
+   * Get agents linked to a specific agent (or the current user's agent).
+   *
+   * Queries the API which reads from the DHT (IsSamePersonEntry).
+   *
+   * @param agentPubKey Optional specific agent to query. Defaults to current user's agent.
+   * @returns List of linked agent public keys
+   */
+  async getLinkedAgents(agentPubKey?: string): Promise<string[]> {
+    const url = new URL(`${this.config.apiUrl}/auth/linked-agents`);
+    if (agentPubKey) {
+      url.searchParams.set('agent_pub_key', agentPubKey);
+    }
+
+    const response = await this.fetch(url);
+
+    if (!response.ok) {
+      throw await errorFromResponse(response, 'request_failed', 'Failed to get linked agents');
+    }
+
+    const data = await response.json();
+    return data.linked_agents || [];
+  }
 
   /**
-   * Get agents linked to a specific agent (or the current user's agent).
+   * Get the agents linked to a specific agent (or the current user's agent),
+   * including revoked links and when each link was made.
    *
-   * Queries the API which reads from the DHT (IsSamePersonEntry).
+   * Results are cached for `linkedAgentsTtl` seconds. Looking up the
+   * current user's agents also updates `user.linkedAgents`.
+   *
+   * @example
+   * ```typescript
+   * const agents = await flowsta.getLinkedAgentDetails();
+   * const active = agents.filter((agent) => !agent.isRevoked);
+   * ```
    *
    * @param agentPubKey Optional specific agent to query. Defaults to current user's agent.
-   * @returns List of linked agent public keys
    */
-  async getLinkedAgents(agentPubKey?: string): Promise<string[]> {
-    const token = this.accessToken;
-    if (!token) {
-      throw new Error('Not authenticated');
+  async getLinkedAgentDetails(agentPubKey?: string): Promise<LinkedAgent[]> {
+    const agents = await this.fetchLinkedAgents(agentPubKey);
+    if (this.user && (!agentPubKey || agentPubKey === this.user.agentPubKey)) {
+      await this.updateUser({ ...this.user, linkedAgents: agents });
     }
+    return agents;
+  }
+
+  /** Look up linked agents through the cache, without touching the user */
+  private async fetchLinkedAgents(agentPubKey?: string): Promise<LinkedAgent[]> {
+    const key = agentPubKey || '';
+    const cached = this.linkedAgentsCache.get(key);
+    if (cached?.fresh) return cached.value;
 
     const url = new URL(`${this.config.apiUrl}/auth/linked-agents`);
+    url.searchParams.set('details', 'true');
     if (agentPubKey) {
       url.searchParams.set('agent_pub_key', agentPubKey);
     }
 
-    const response = await fetch(url.toString(), {
-      headers: { Authorization: `Bearer ${token}` },
-    });
+    const response = await this.fetch(url);
 
     if (!response.ok) {
-      const data = await response.json().catch(() => ({}));
-      throw new Error(data.error || 'Failed to get linked agents');
+      throw await errorFromResponse(response, 'request_failed', 'Failed to get linked agents');
     }
 
     const data = await response.json();
-    return data.linked_agents || [];
+    const agents = ((data.linked_agents || []) as Array<string | Record<string, any>>).map(toLinkedAgent);
+    this.linkedAgentsCache.set(key, agents);
+    return agents;
+  }
+
+  /**
+   * Re-fetch the current user's linked agents, bypassing the cache, and
+   * update `user.linkedAgents`. Call after the user links or unlinks an agent.
+   */
+  async refreshLinkedAgents(): Promise<LinkedAgent[]> {
+    this.linkedAgentsCache.delete('');
+    if (this.user?.agentPubKey) {
+      this.linkedAgentsCache.delete(this.user.agentPubKey);
+    }
+    return this.getLinkedAgentDetails();
+  }
+
+  /**
+   * Find every agent that belongs to the same person as `agentPubKey`,
+   * following links transitively (A–B and B–C make A and C the same
+   * person). Revoked links are skipped. Each agent comes with the shortest
+   * chain of links that proves the connection.
+   *
+   * Walks the graph breadth-first, one `getLinkedAgentDetails()` call per
+   * agent (at most `concurrency` at a time), so lookups are shared with its
+   * cache. A failed lookup is recorded in `failures` and marks the graph
+   * `truncated` instead of failing the whole walk.
+   *
+   * @example
+   * ```typescript
+   * const graph = await flowsta.resolveIdentityGraph(agentA, { maxDepth: 4 });
+   * const match = graph.agents.find((agent) => agent.agentPubKey === agentB);
+   * if (match) console.log('Same person via', match.path.join(' → '));
+   * ```
+   */
+  async resolveIdentityGraph(agentPubKey: string, options: IdentityGraphOptions = {}): Promise<IdentityGraph> {
+    const maxDepth = options.maxDepth ?? 3;
+    const maxAgents = options.maxAgents ?? 100;
+    const concurrency = Math.max(1, options.concurrency ?? 4);
+
+    const nodes = new Map<string, IdentityNode>([[agentPubKey, { agentPubKey, depth: 0, path: [agentPubKey] }]]);
+    const links = new Map<string, { from: string; to: string; linkedAt?: string }>();
+    const failures: IdentityGraph['failures'] = [];
+    let frontier = [agentPubKey];
+    let truncated = false;
+
+    for (let depth = 1; frontier.length > 0; depth++) {
+      const level = frontier;
+      const linked: Array<LinkedAgent[] | null> = level.map(() => null);
+
+      let nextLookup = 0;
+      const worker = async () => {
+        while (nextLookup < level.length) {
+          const i = nextLookup++;
+          try {
+            linked[i] = await this.getLinkedAgentDetails(level[i]);
+          } catch (error) {
+            failures.push({ agentPubKey: level[i], error: toError(error) });
+            truncated = true;
+          }
+        }
+      };
+      await Promise.all(Array.from({ length: Math.min(concurrency, level.length) }, worker));
+
+      const next: string[] = [];
+      level.forEach((from, i) => {
+        for (const { agentPubKey: to, linkedAt, isRevoked } of linked[i] ?? []) {
+          if (isRevoked || !to || to === from) continue;
+
+          const key = from < to ? `${from}|${to}` : `${to}|${from}`;
+          if (!links.has(key)) links.set(key, { from, to, linkedAt });
+
+          if (nodes.has(to)) continue;
+          if (depth > maxDepth || nodes.size >= maxAgents) {
+            truncated = true;
+            continue;
+          }
+          nodes.set(to, { agentPubKey: to, depth, path: [...nodes.get(from)!.path, to] });
+          next.push(to);
+        }
+      });
+
+      // Agents at maxDepth are looked up only to find links among known agents
+      frontier = depth > maxDepth ? [] : next;
+    }
+
+    // Keep only links between agents in the graph
+    const inGraph = [...links.values()].filter((link) => nodes.has(link.from) && nodes.has(link.to));
+    return { root: agentPubKey, agents: [...nodes.values()], links: inGraph, failures, truncated };
   }
 
   /**
@@ -397,18 +2170,11 @@ export class FlowstaAuth {
    * @returns true if the agents are linked via an IsSamePersonEntry
    */
   async areAgentsLinked(agentA: string, agentB: string): Promise<boolean> {
-    const token = this.accessToken;
-    if (!token) {
-      throw new Error('Not authenticated');
-    }
-
     const url = new URL(`${this.config.apiUrl}/auth/are-agents-linked`);
     url.searchParams.set('agent_a', agentA);
     url.searchParams.set('agent_b', agentB);
 
-    const response = await fetch(url.toString(), {
-      headers: { Authorization: `Bearer ${token}` },
-    });
+    const response = await this.fetch(url);
 
     if (!response.ok) {
       return false;
@@ -421,30 +2187,38 @@ export class FlowstaAuth {
   // ── Sign It Methods ──────────────────────────────────────────────
 
   /**
-   * Sign a file hash. Requires 'sign' scope.
-   * The file is never uploaded — only the hash is sent to the API.
+   * Sign a file hash. The file is never uploaded — only the hash is sent.
+   *
+   * When the user's `signingMode` is 'ipc', the hash is signed locally by
+   * Flowsta Vault (the user approves it in the Vault). Otherwise, or if the
+   * Vault is not running, locked or can't sign, the API signs it, which
+   * requires the 'sign' scope.
+   *
+   * @throws {MissingScopeError} Signing through the API without the 'sign' scope; see `requestAdditionalScopes()`
+   * @throws {AccessDeniedError} The user declined the request in the Vault
    *
    * @example
    * ```typescript
    * const hash = await hashFile(file);
-   * const result = await flowsta.signFile({ fileHash: hash, intent: 'authorship' });
+   * const result = await flowsta.signFile({ fileHash: hash, intent: 'authorship', label: file.name });
+   * console.log(result.signingMode, result.actionHash);
    * ```
    */
-  async signFile(options: {
-    fileHash: string;
-    intent?: string;
-    aiGeneration?: string;
-    contentRights?: Record<string, string>;
-  }): Promise<{ success: boolean; file_hash: string; agent_pub_key: string; signed_at: number; action_hash: string | null }> {
-    const token = this.getAccessToken();
-    if (!token) throw new Error('Not authenticated');
-
-    const response = await fetch(`${this.config.apiUrl}/api/v1/sign-it/sign`, {
+  async signFile(options: SignFileOptions): Promise<SignResult> {
+    if (this.user?.signingMode === 'ipc') {
+      const result = await this.signWithVault(options);
+      if (result) {
+        // A cached verifyFile() result no longer lists every signature
+        this.verifyCache?.delete(options.fileHash.toLowerCase());
+        return result;
+      }
+    }
+
+    this.requireScopes('sign');
+
+    const response = await this.fetch(`${this.config.apiUrl}/api/v1/sign-it/sign`, {
       method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
-        Authorization: `Bearer ${token}`,
-      },
+      headers: { 'Content-Type': 'application/json' },
       body: JSON.stringify({
         file_hash: options.fileHash,
         intent: options.intent || 'Authorship',
@@ -453,85 +2227,210 @@ export class FlowstaAuth {
       }),
     });
 
-    const data = await response.json();
-    if (!response.ok) throw new Error(data.message || 'Signing failed');
-    return data;
+    if (!response.ok) throw await errorFromResponse(response, 'request_failed', 'Signing failed');
+    const result = normalizeSignResult(await response.json(), 'remote');
+    this.verifyCache?.delete(options.fileHash.toLowerCase());
+    return result;
   }
 
   /**
-   * Sign multiple file hashes in one request. Requires 'sign' scope.
-   * Shared metadata applies to all files unless overridden per-file.
+   * Sign multiple file hashes. Shared metadata applies to all files
+   * unless overridden per-file.
+   *
+   * Like `signFile()`, files are signed by Flowsta Vault (one approval
+   * each) when `signingMode` is 'ipc', and by the API in one request
+   * otherwise or once the Vault becomes unavailable.
+   *
+   * @throws {MissingScopeError} Signing through the API without the 'sign' scope
    */
-  async signBatch(options: {
-    files: Array<{ fileHash: string; intent?: string; aiGeneration?: string; contentRights?: Record<string, string> }>;
-    sharedMetadata?: {
-      intent?: string;
-      aiGeneration?: string;
-      contentRights?: Record<string, string>;
-    };
-  }): Promise<{ results: Array<{ file_hash: string; action_hash: string | null; success: boolean; error?: string }>; signed: number; failed: number }> {
-    const token = this.getAccessToken();
-    if (!token) throw new Error('Not authenticated');
+  async signBatch(options: SignBatchOptions): Promise<BatchSignResult> {
+    const files = options.files.map((file) => ({ ...options.sharedMetadata, ...file }));
+    const results: BatchSignResult['results'] = [];
+
+    if (this.user?.signingMode === 'ipc') {
+      for (const file of files) {
+        let result: SignResult | null;
+        try {
+          result = await this.signWithVault(file);
+        } catch (error) {
+          results.push({ success: false, fileHash: file.fileHash, error: toError(error).message });
+          continue;
+        }
+        // Vault unavailable: the API signs the rest
+        if (!result) break;
+        results.push(result);
+      }
+    }
 
-    const response = await fetch(`${this.config.apiUrl}/api/v1/sign-it/sign-batch`, {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
-        Authorization: `Bearer ${token}`,
-      },
-      body: JSON.stringify({
-        files: options.files.map((f) => ({
-          file_hash: f.fileHash,
-          intent: f.intent,
-          ai_generation: f.aiGeneration,
-          content_rights: f.contentRights,
-        })),
-        shared_metadata: options.sharedMetadata
-          ? {
-              intent: options.sharedMetadata.intent,
-              ai_generation: options.sharedMetadata.aiGeneration,
-              content_rights: options.sharedMetadata.contentRights,
-            }
-          : undefined,
-      }),
+    const remaining = files.slice(results.length);
+    if (remaining.length > 0) {
+      this.requireScopes('sign');
+
+      const response = await this.fetch(`${this.config.apiUrl}/api/v1/sign-it/sign-batch`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          files: remaining.map((f) => ({
+            file_hash: f.fileHash,
+            intent: f.intent,
+            ai_generation: f.aiGeneration,
+            content_rights: f.contentRights,
+          })),
+        }),
+      });
+
+      if (!response.ok) throw await errorFromResponse(response, 'request_failed', 'Batch signing failed');
+
+      const data = await response.json();
+      for (const entry of data.results || []) {
+        results.push(
+          entry.success
+            ? normalizeSignResult(
+                { agent_pub_key: data.agent_pub_key || this.user?.agentPubKey, signed_at: data.signed_at, ...entry },
+                'remote',
+              )
+            : { success: false, fileHash: entry.file_hash, error: entry.error || 'Signing failed' },
+        );
+      }
+    }
+
+    results.forEach((result, index) => {
+      if (result.success) this.verifyCache?.delete(files[index].fileHash.toLowerCase());
     });
 
-    const data = await response.json();
-    if (!response.ok) throw new Error(data.message || 'Batch signing failed');
-    return data;
+    const signed = results.filter((result) => result.success).length;
+    return { results, signed, failed: results.length - signed };
+  }
+
+  /**
+   * Sign a hash through the Vault's /sign-document IPC endpoint
+   *
+   * @returns The signature, or null if the Vault can't sign right now
+   *   (not running, locked, or without the signing DNA)
+   */
+  private async signWithVault(file: SignFileOptions): Promise<SignResult | null> {
+    // The Vault waits up to 60 s for the user to approve
+    const controller = new AbortController();
+    const timeout = setTimeout(() => controller.abort(), 70000);
+
+    let response: Response;
+    try {
+      response = await fetch(`${this.config.ipcUrl}/sign-document`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        signal: controller.signal,
+        body: JSON.stringify({
+          file_hash: file.fileHash,
+          label: file.label,
+          intent: file.intent?.toLowerCase(),
+          ai_generation: file.aiGeneration,
+          content_rights: file.contentRights,
+          app_name: this.config.appName,
+          client_id: this.config.clientId,
+        }),
+      });
+    } catch (error) {
+      if ((error as Error)?.name === 'AbortError') {
+        throw new FlowstaAuthError('Vault signing timed out. The user may not have responded.', 'timeout');
+      }
+      return null;
+    } finally {
+      clearTimeout(timeout);
+    }
+
+    if (!response.ok) {
+      const data = await response.json().catch(() => ({}));
+      if (data.error === 'user_denied') {
+        throw new AccessDeniedError('The signing request was declined in Flowsta Vault', {
+          status: response.status,
+          oauthError: data.error,
+        });
+      }
+      if (data.error === 'vault_locked' || data.error === 'signing_dna_not_installed') {
+        return null;
+      }
+      throw new FlowstaAuthError(data.description || `Vault signing failed: ${data.error || response.status}`, 'request_failed', {
+        status: response.status,
+      });
+    }
+
+    return normalizeSignResult(await response.json(), 'ipc');
   }
 
   /**
    * Verify a file hash — check if it has been signed.
    * Public endpoint (no authentication required), but authenticated
    * requests with 'verify' scope get higher rate limits.
+   *
+   * With the `verifyCache` option, results are reused within the cache
+   * TTL and revalidated with their ETag afterwards.
    */
-  async verifyFile(fileHash: string): Promise<{
-    signatures: Array<{
-      file_hash: string;
-      signer: string;
-      signer_did?: string;
-      signed_at: number;
-      intent?: string;
-      ai_generation?: string;
-      content_rights?: Record<string, any>;
-      revoked: boolean;
-      contactable: boolean;
-    }>;
-    count: number;
-  }> {
+  async verifyFile(fileHash: string, options: { signal?: AbortSignal } = {}): Promise<FileVerification> {
+    const key = fileHash.toLowerCase();
+    const cached = this.verifyCache?.get(key);
+    if (cached?.fresh) return cached.value;
+
     const headers: Record<string, string> = {};
-    const token = this.getAccessToken();
-    if (token) headers.Authorization = `Bearer ${token}`;
+    if (cached?.etag) headers['If-None-Match'] = cached.etag;
 
-    const response = await fetch(
+    const response = await this.fetch(
       `${this.config.apiUrl}/api/v1/sign-it/verify?hash=${encodeURIComponent(fileHash)}`,
-      { headers },
+      { requireAuth: false, headers, signal: options.signal },
     );
 
-    const data = await response.json();
-    if (!response.ok) throw new Error(data.message || 'Verification failed');
-    return data;
+    if (response.status === 304 && cached) {
+      this.verifyCache?.set(key, cached.value, cached.etag);
+      return cached.value;
+    }
+    if (!response.ok) throw await errorFromResponse(response, 'request_failed', 'Verification failed');
+
+    const result: FileVerification = await response.json();
+    this.verifyCache?.set(key, result, response.headers.get('ETag'));
+    return result;
+  }
+
+  /**
+   * Verify many file hashes with a bounded number of parallel requests.
+   * Failures are reported per hash instead of failing the whole batch.
+   *
+   * @example
+   * ```typescript
+   * const { results, failed } = await flowsta.verifyFiles(hashes, { concurrency: 4 });
+   * for (const { fileHash, result, error } of results) {
+   *   if (result) showBadge(fileHash, result.count > 0);
+   * }
+   * ```
+   */
+  async verifyFiles(fileHashes: string[], options: VerifyFilesOptions = {}): Promise<BatchVerification> {
+    const hashes = [...new Set(fileHashes.map((hash) => hash.toLowerCase()))];
+    const concurrency = Math.max(1, options.concurrency ?? 6);
+    const results: BatchVerification['results'] = hashes.map((fileHash) => ({
+      fileHash,
+      result: null,
+      error: null,
+    }));
+
+    let next = 0;
+    const worker = async () => {
+      while (next < results.length) {
+        const entry = results[next++];
+        try {
+          options.signal?.throwIfAborted();
+          entry.result = await this.verifyFile(entry.fileHash, { signal: options.signal });
+        } catch (error) {
+          entry.error = toError(error);
+        }
+      }
+    };
+    await Promise.all(Array.from({ length: Math.min(concurrency, results.length) }, worker));
+
+    const failed = results.filter((entry) => entry.error).length;
+    return { results, verified: results.length - failed, failed };
+  }
+
+  /** Forget all cached `verifyFile()` results */
+  clearVerificationCache(): void {
+    this.verifyCache?.clear();
   }
 
   /**
@@ -567,22 +2466,447 @@ export class FlowstaAuth {
     };
   }
 
-  private restoreSession(): void {
-    if (typeof localStorage === 'undefined') return;
+  /**
+   * List the signatures made by the current user, newest first.
+   *
+   * @example
+   * ```typescript
+   * let cursor: string | undefined;
+   * do {
+   *   const page = await flowsta.listMySignatures({ cursor, limit: 50 });
+   *   render(page.signatures);
+   *   cursor = page.nextCursor ?? undefined;
+   * } while (cursor);
+   * ```
+   */
+  async listMySignatures(options: SignatureListOptions = {}): Promise<SignatureList> {
+    const url = new URL(`${this.config.apiUrl}/api/v1/sign-it/my-signatures`);
+    if (options.cursor) url.searchParams.set('cursor', options.cursor);
+    if (options.limit !== undefined) url.searchParams.set('limit', String(options.limit));
+
+    const response = await this.fetch(url);
+    if (!response.ok) throw await errorFromResponse(response, 'request_failed', 'Failed to list signatures');
+
+    const data = await response.json();
+    return { signatures: (data.signatures || []).map(toSignatureRecord), nextCursor: data.next_cursor ?? null };
+  }
+
+  /**
+   * Get one of the current user's signatures by its action hash.
+   *
+   * @returns The signature, or null if it doesn't exist
+   */
+  async getSignature(actionHash: string): Promise<SignatureRecord | null> {
+    const response = await this.fetch(
+      `${this.config.apiUrl}/api/v1/sign-it/signature?action_hash=${encodeURIComponent(actionHash)}`,
+    );
+
+    if (response.status === 404) return null;
+    if (!response.ok) throw await errorFromResponse(response, 'request_failed', 'Failed to get signature');
+    return toSignatureRecord(await response.json());
+  }
+
+  /**
+   * Revoke one of the current user's signatures. Requires 'sign' scope.
+   * The signature stays on the DHT but is reported as revoked by
+   * `verifyFile()` from then on.
+   *
+   * @param actionHash The signature's action hash
+   * @param reason Shown to people verifying the file
+   * @returns The revoked signature
+   * @throws {MissingScopeError} The 'sign' scope was not granted
+   */
+  async revokeSignature(actionHash: string, reason?: string): Promise<SignatureRecord> {
+    this.requireScopes('sign');
+
+    const response = await this.fetch(`${this.config.apiUrl}/api/v1/sign-it/revoke`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({
+        action_hash: actionHash,
+        reason: reason || null,
+      }),
+    });
+
+    if (!response.ok) throw await errorFromResponse(response, 'request_failed', 'Revocation failed');
+
+    const record = toSignatureRecord(await response.json());
+    this.verifyCache?.delete(record.fileHash.toLowerCase());
+    return record;
+  }
+
+  // ── Session Management ───────────────────────────────────────────
+
+  private emit(event: AuthEvent): void {
+    if (event.type === 'error') {
+      this.lastError = event.error.message;
+    }
+
+    const state = this.getState();
+    for (const listener of this.listeners) {
+      try {
+        listener(event, state);
+      } catch {
+        // A failing listener must not break the SDK or other listeners
+      }
+    }
+  }
+
+  /** Emit an 'error' event for any failure of `operation`, then rethrow it */
+  private async reportErrors<T>(operation: () => Promise<T>): Promise<T> {
+    try {
+      return await operation();
+    } catch (error) {
+      this.emit({ type: 'error', error: toError(error) });
+      throw error;
+    }
+  }
+
+  private async performRefresh(): Promise<string> {
+    // Another tab may have refreshed (and rotated the refresh token) while we waited for the lock
+    if (this.config.syncTabs) {
+      const storedToken = await this.config.storage.getItem(STORAGE_KEYS.accessToken);
+      if (storedToken && storedToken !== this.accessToken) {
+        await this.reloadSession();
+        if (this.accessToken && !this.isTokenExpiring()) {
+          return this.accessToken;
+        }
+      }
+    }
+
+    const refreshToken = this.refreshToken;
+    if (!refreshToken) {
+      const error = new FlowstaAuthError('No refresh token available', 'token_refresh_failed');
+      this.clearSession();
+      this.emit({ type: 'sessionExpired', error });
+      this.broadcast('sessionExpired');
+      throw error;
+    }
+
+    const generation = this.sessionGeneration;
+    let rejected = false;
+    try {
+      const { endpoints } = await this.getEndpoints();
+      const response = await safeFetch(endpoints.token, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          grant_type: 'refresh_token',
+          refresh_token: refreshToken,
+          client_id: this.config.clientId,
+        }),
+      });
+
+      if (!response.ok) {
+        // A 4xx means the grant is expired, revoked or already rotated; 429 and 5xx are worth retrying
+        rejected = response.status < 500 && response.status !== 429;
+        throw await errorFromResponse(response, 'token_refresh_failed', 'Token refresh failed');
+      }
+
+      const tokens: TokenResponse = await response.json();
+      const claims = await this.validateIdToken(tokens);
+      if (claims && this.idTokenClaims && claims.sub !== this.idTokenClaims.sub) {
+        rejected = true;
+        throw new FlowstaAuthError('Refreshed ID token is for a different user', 'invalid_id_token');
+      }
+      if (generation !== this.sessionGeneration) {
+        // The session was cleared while the request was in flight; don't let the new tokens outlive it
+        if (tokens.refresh_token) {
+          await this.revokeToken(tokens.refresh_token, 'refresh_token').catch(() => {});
+        }
+        throw new NotAuthenticatedError();
+      }
+      await this.storeTokens(tokens);
+      this.emit({ type: 'tokenRefreshed', accessToken: tokens.access_token });
+      this.broadcast('tokenRefreshed');
+      return tokens.access_token;
+    } catch (error) {
+      // After network or server errors the refresh token is still good for a later attempt
+      // A session that was cleared meanwhile, or replaced by a new login, is not ours to end
+      const current = generation === this.sessionGeneration;
+      if (current && (rejected || (error instanceof FlowstaAuthError && error.code === 'invalid_id_token'))) {
+        this.clearSession();
+        this.emit({ type: 'sessionExpired', error: toError(error) });
+        this.broadcast('sessionExpired');
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Store a token response
+   *
+   * @param requestedScopes Scopes of the authorization request; per RFC 6749
+   *   they were all granted if the response has no `scope`. Omitted for
+   *   refreshes, which keep the previously granted scopes.
+   */
+  private async storeTokens(tokens: TokenResponse, requestedScopes?: string[]): Promise<void> {
+    this.accessToken = tokens.access_token;
+    if (tokens.scope) {
+      this.grantedScopes = tokens.scope.split(' ').filter(Boolean);
+    } else if (requestedScopes) {
+      this.grantedScopes = [...requestedScopes];
+    }
+    // Servers that rotate refresh tokens return a new one; otherwise keep the old one
+    if (tokens.refresh_token) {
+      this.refreshToken = tokens.refresh_token;
+    }
+    this.expiresAt = tokens.expires_in ? Date.now() + tokens.expires_in * 1000 : null;
+    // Only called with ID tokens that passed validateIdToken
+    if (tokens.id_token) {
+      this.idToken = tokens.id_token;
+      this.idTokenClaims = decodeJwtClaims(tokens.id_token);
+    }
+
+    const { storage } = this.config;
+    await storage.setItem(STORAGE_KEYS.accessToken, tokens.access_token);
+    if (this.refreshToken) {
+      await storage.setItem(STORAGE_KEYS.refreshToken, this.refreshToken);
+    }
+    if (this.expiresAt) {
+      await storage.setItem(STORAGE_KEYS.expiresAt, String(this.expiresAt));
+    } else {
+      await storage.removeItem(STORAGE_KEYS.expiresAt);
+    }
+    if (this.idToken) {
+      await storage.setItem(STORAGE_KEYS.idToken, this.idToken);
+    }
+    if (this.grantedScopes) {
+      await storage.setItem(STORAGE_KEYS.scopes, this.grantedScopes.join(' '));
+    }
+
+    this.scheduleTokenTimers();
+  }
+
+  private clearSession(): void {
+    this.sessionGeneration++;
+    this.resetSessionState();
+    for (const key of SESSION_KEYS) {
+      // Asynchronous adapters finish in the background; failures leave nothing to recover
+      Promise.resolve(this.config.storage.removeItem(key)).catch(() => {});
+    }
+  }
+
+  /** Forget the in-memory session without touching storage */
+  private resetSessionState(): void {
+    this.cancelTokenTimers();
+    this.accessToken = null;
+    this.refreshToken = null;
+    this.expiresAt = null;
+    this.user = null;
+    this.idToken = null;
+    this.idTokenClaims = null;
+    this.grantedScopes = null;
+    this.linkedAgentsCache.clear();
+  }
+
+  private isTokenExpiring(): boolean {
+    if (!this.expiresAt) return false;
+    return Date.now() >= this.expiresAt - this.config.refreshLeeway * 1000;
+  }
+
+  private isTokenExpired(): boolean {
+    return this.expiresAt !== null && Date.now() >= this.expiresAt;
+  }
+
+  /**
+   * Refresh the token before it expires or, if it won't be refreshed
+   * automatically, warn with 'sessionExpiring' and end the session at expiry
+   */
+  private scheduleTokenTimers(): void {
+    this.cancelTokenTimers();
+    const expiresAt = this.expiresAt;
+    // A session restored after destroy() must not start timers again
+    if (!expiresAt || this.destroyed) return;
+
+    // setTimeout overflows above 2^31-1 ms (~24.8 days)
+    const delayUntil = (time: number) => Math.min(Math.max(time - Date.now(), 0), 0x7fffffff);
+
+    if (this.config.autoRefresh && this.refreshToken) {
+      const refresh = () => {
+        this.refreshTimer = null;
+        this.refreshAccessToken().catch(() => {
+          // A rejected grant cleared the session; after a network or server error, try again
+          if (this.refreshToken && !this.destroyed && this.refreshTimer === null) {
+            this.refreshTimer = setTimeout(refresh, REFRESH_RETRY_DELAY);
+          }
+        });
+      };
+      this.refreshTimer = setTimeout(refresh, delayUntil(expiresAt - this.config.refreshLeeway * 1000));
+      return;
+    }
+
+    this.expiryTimers.push(
+      setTimeout(() => {
+        this.emit({ type: 'sessionExpiring', expiresAt });
+      }, delayUntil(expiresAt - this.config.expiryWarning * 1000)),
+    );
+
+    // A refresh token can still renew the session on demand
+    if (this.refreshToken) return;
+
+    this.expiryTimers.push(
+      setTimeout(() => {
+        this.clearSession();
+        this.emit({ type: 'sessionExpired', error: new NotAuthenticatedError() });
+      }, delayUntil(expiresAt)),
+    );
+  }
+
+  private cancelTokenTimers(): void {
+    if (this.refreshTimer !== null) {
+      clearTimeout(this.refreshTimer);
+      this.refreshTimer = null;
+    }
+    this.expiryTimers.forEach(clearTimeout);
+    this.expiryTimers = [];
+  }
+
+  private restoreSession(): Promise<void> {
+    let values: Array<string | null | Promise<string | null>>;
+    try {
+      values = SESSION_KEYS.map((key) => this.config.storage.getItem(key));
+    } catch {
+      return Promise.resolve();
+    }
+
+    // Synchronous storage restores immediately, so the session is
+    // available as soon as the constructor returns
+    if (!values.some((value) => value instanceof Promise)) {
+      this.applyStoredSession(values as Array<string | null>);
+      return Promise.resolve();
+    }
+
+    return Promise.all(values).then(
+      (resolved) => this.applyStoredSession(resolved),
+      () => {
+        // Storage unavailable, start logged out
+      },
+    );
+  }
+
+  private applyStoredSession([token, userJson, refreshToken, expiresAt, idToken, scopes]: Array<string | null>): void {
+    if (!token || !userJson) return;
+
+    // An expired token without a refresh token can't be used any more
+    const expiry = Number(expiresAt) > 0 ? Number(expiresAt) : null;
+    if (expiry !== null && Date.now() >= expiry && !refreshToken) {
+      this.clearSession();
+      return;
+    }
+
+    try {
+      this.accessToken = token;
+      this.user = JSON.parse(userJson);
+      this.refreshToken = refreshToken;
+      this.expiresAt = expiry;
+      // Stored ID tokens were validated when they were received
+      if (idToken) {
+        this.idToken = idToken;
+        this.idTokenClaims = decodeJwtClaims(idToken);
+      }
+      // Sessions stored before scopes were recorded got the configured scopes
+      this.grantedScopes = scopes !== null ? scopes.split(' ').filter(Boolean) : [...this.config.scopes];
+      this.scheduleTokenTimers();
+    } catch {
+      // Invalid stored data, clear it
+      this.clearSession();
+    }
+  }
+
+  /** Re-read the session another tab wrote to storage */
+  private async reloadSession(): Promise<void> {
+    const values = await Promise.all(SESSION_KEYS.map((key) => this.config.storage.getItem(key)));
+    this.resetSessionState();
+    this.applyStoredSession(values);
+  }
+
+  // ── Cross-Tab Sync ───────────────────────────────────────────────
+
+  private startTabSync(): void {
+    if (typeof BroadcastChannel !== 'undefined') {
+      this.syncChannel = new BroadcastChannel(`flowsta_auth_${this.config.clientId}`);
+      this.syncChannel.onmessage = (event: MessageEvent<TabSyncMessage>) => {
+        this.handleTabSyncMessage(event.data);
+      };
+      // Runtimes with an event loop (Node, Deno, Electron) must not be kept alive by the channel
+      (this.syncChannel as BroadcastChannel & { unref?: () => void }).unref?.();
+      return;
+    }
+
+    // Fallback for browsers without BroadcastChannel: storage events
+    // fire in every other tab when localStorage changes
+    if (typeof window === 'undefined' || typeof localStorage === 'undefined') return;
+    this.storageListener = (event: StorageEvent) => {
+      if (event.key !== STORAGE_KEYS.tabSync || !event.newValue) return;
+      try {
+        this.handleTabSyncMessage(JSON.parse(event.newValue));
+      } catch {
+        // Not a Flowsta message
+      }
+    };
+    window.addEventListener('storage', this.storageListener);
+  }
+
+  private broadcast(type: TabSyncMessage['type']): void {
+    if (!this.config.syncTabs) return;
+    const message: TabSyncMessage = { type, tabId: this.tabId };
 
-    const token = localStorage.getItem('flowsta_access_token');
-    const userJson = localStorage.getItem('flowsta_user');
+    if (this.syncChannel) {
+      this.syncChannel.postMessage(message);
+      return;
+    }
 
-    if (token && userJson) {
+    if (this.storageListener) {
       try {
-        this.accessToken = token;
-        this.user = JSON.parse(userJson);
+        // Only the event matters; the random suffix makes repeated messages distinct
+        localStorage.setItem(STORAGE_KEYS.tabSync, JSON.stringify({ ...message, nonce: generateRandomString(8) }));
+        localStorage.removeItem(STORAGE_KEYS.tabSync);
       } catch {
-        // Invalid stored data, clear it
-        this.logout();
+        // localStorage unavailable, tabs stay independent
       }
     }
   }
+
+  private async handleTabSyncMessage(message: TabSyncMessage): Promise<void> {
+    if (!message || message.tabId === this.tabId) return;
+
+    if (message.type === 'logout' || message.type === 'sessionExpired') {
+      if (!this.accessToken) return;
+      this.clearSession();
+      this.emit(
+        message.type === 'logout'
+          ? { type: 'logout' }
+          : {
+              type: 'sessionExpired',
+              error: new FlowstaAuthError('Session expired in another tab', 'token_refresh_failed'),
+            },
+      );
+      return;
+    }
+
+    try {
+      await this.reloadSession();
+    } catch {
+      return;
+    }
+
+    if (message.type === 'login' && this.user) {
+      this.emit({ type: 'login', user: this.user });
+    } else if (message.type === 'userUpdated' && this.user) {
+      this.emit({ type: 'userUpdated', user: this.user });
+    } else if (message.type === 'tokenRefreshed' && this.accessToken) {
+      this.emit({ type: 'tokenRefreshed', accessToken: this.accessToken });
+    }
+  }
+
+  /** Run `operation` while holding a lock shared by all tabs (Web Locks API) */
+  private async withRefreshLock<T>(operation: () => Promise<T>): Promise<T> {
+    if (!this.config.syncTabs || typeof navigator === 'undefined' || !navigator.locks) {
+      return operation();
+    }
+    return await navigator.locks.request(`flowsta_refresh_${this.config.clientId}`, operation);
+  }
 }
 
 // Default export for convenience
@@ -591,8 +2915,10 @@ export default FlowstaAuth;
 // ── Sign It Utilities ─────────────────────────────────────────────
 
 /**
- * Hash a file using SHA-256 in the browser via SubtleCrypto.
- * The file is never uploaded — hashing happens entirely client-side.
+ * Hash a file using SHA-256, entirely client-side.
+ * The file is never uploaded, and it is read in chunks, so even
+ * multi-gigabyte files are hashed with constant memory. Works in Web
+ * Workers too (pass the File to the worker with postMessage).
  *
  * @example
  * ```typescript
@@ -600,17 +2926,16 @@ export default FlowstaAuth;
  *
  * const input = document.querySelector('input[type=file]');
  * const file = input.files[0];
- * const hash = await hashFile(file);
+ * const hash = await hashFile(file, {
+ *   onProgress: ({ bytesHashed, totalBytes }) => setProgress(bytesHashed / totalBytes),
+ *   signal: controller.signal,
+ * });
  * console.log(hash); // "a7f3b9c1e2d4..."
  * ```
  *
- * @param file - A File object from a file input or drag-and-drop
+ * @param file - A File (or Blob) from a file input or drag-and-drop
  * @returns Hex-encoded SHA-256 hash (64 characters)
  */
-export async function hashFile(file: File): Promise<string> {
-  const buffer = await file.arrayBuffer();
-  const hashBuffer = await crypto.subtle.digest('SHA-256', buffer);
-  return Array.from(new Uint8Array(hashBuffer))
-    .map((b) => b.toString(16).padStart(2, '0'))
-    .join('');
+export async function hashFile(file: Blob, options: HashOptions = {}): Promise<string> {
+  return hashBlob(file, options);
 }
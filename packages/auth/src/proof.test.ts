@@ -0,0 +1,130 @@
+import { createHash } from 'node:crypto';
+import { beforeAll, describe, expect, it } from 'vitest';
+import { PROOF_BUNDLE_TYPE, createProofBundle, toIsoTime, verifyProofBundle, type ProofBundle } from './proof.js';
+
+function base64(bytes: Uint8Array): string {
+  return btoa(String.fromCharCode(...bytes));
+}
+
+function agentPubKey(publicKey: Uint8Array): string {
+  const bytes = new Uint8Array([0x84, 0x20, 0x24, ...publicKey, 0, 0, 0, 0]);
+  return `u${base64(bytes).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '')}`;
+}
+
+const file = new TextEncoder().encode('Master recording, take 3');
+const fileHash = createHash('sha256').update(file).digest('hex');
+
+let agent: string;
+let signature: string;
+
+beforeAll(async () => {
+  const keys = (await crypto.subtle.generateKey({ name: 'Ed25519' }, true, ['sign', 'verify'])) as CryptoKeyPair;
+  agent = agentPubKey(new Uint8Array(await crypto.subtle.exportKey('raw', keys.publicKey)));
+  const digest = new Uint8Array(createHash('sha256').update(file).digest());
+  signature = base64(new Uint8Array(await crypto.subtle.sign({ name: 'Ed25519' }, keys.privateKey, digest)));
+});
+
+describe('createProofBundle', () => {
+  it('builds a bundle from a signFile() result', () => {
+    const bundle = createProofBundle(
+      { fileHash: fileHash.toUpperCase(), signature, agentPubKey: agent, signedAt: '2026-03-01T12:00:00.000Z', actionHash: 'uhCkk1' },
+      { intent: 'authorship', contentRights: { license: 'CC-BY-4.0' } },
+    );
+
+    expect(bundle).toEqual({
+      type: PROOF_BUNDLE_TYPE,
+      version: 1,
+      file: { hash: fileHash, algorithm: 'SHA-256' },
+      signature: { algorithm: 'Ed25519', value: signature, agentPubKey: agent, did: `did:flowsta:${agent}` },
+      intent: 'authorship',
+      aiGeneration: null,
+      contentRights: { license: 'CC-BY-4.0' },
+      signedAt: '2026-03-01T12:00:00.000Z',
+      actionHash: 'uhCkk1',
+    });
+  });
+
+  it('accepts snake_case results with Holochain timestamps', () => {
+    const bundle = createProofBundle({
+      file_hash: fileHash,
+      signature,
+      agent_pub_key: agent,
+      signed_at: 1_772_366_400_000_000,
+    });
+
+    expect(bundle.signedAt).toBe('2026-03-01T12:00:00.000Z');
+    expect(bundle.actionHash).toBeNull();
+  });
+
+  it('throws without a signature or with a malformed agent key', () => {
+    expect(() => createProofBundle({ fileHash, signature: null, agentPubKey: agent, signedAt: 0 })).toThrow(
+      expect.objectContaining({ code: 'invalid_proof_bundle' }),
+    );
+    expect(() => createProofBundle({ fileHash, signature, agentPubKey: 'uhCAk', signedAt: 0 })).toThrow(
+      expect.objectContaining({ code: 'invalid_agent_key' }),
+    );
+  });
+});
+
+describe('verifyProofBundle', () => {
+  let bundle: ProofBundle;
+
+  beforeAll(() => {
+    bundle = createProofBundle({ fileHash, signature, agentPubKey: agent, signedAt: 1_772_366_400 });
+  });
+
+  it('verifies a bundle against the file or its hash', async () => {
+    await expect(verifyProofBundle(bundle, file)).resolves.toMatchObject({ valid: true, hashMatches: true, signatureValid: true });
+    await expect(verifyProofBundle(JSON.stringify(bundle), new Blob([file]))).resolves.toMatchObject({ valid: true });
+    await expect(verifyProofBundle(bundle, fileHash.toUpperCase())).resolves.toMatchObject({ valid: true });
+  });
+
+  it('rejects a different file', async () => {
+    await expect(verifyProofBundle(bundle, new TextEncoder().encode('Take 4'))).resolves.toMatchObject({
+      valid: false,
+      hashMatches: false,
+      signatureValid: true,
+    });
+  });
+
+  it('rejects a bundle whose hash was swapped', async () => {
+    const otherHash = createHash('sha256').update('Take 4').digest('hex');
+    const forged = { ...bundle, file: { ...bundle.file, hash: otherHash } };
+
+    await expect(verifyProofBundle(forged, otherHash)).resolves.toMatchObject({
+      valid: false,
+      hashMatches: true,
+      signatureValid: false,
+    });
+  });
+
+  it.each([
+    ['invalid JSON', () => '{'],
+    ['another type', () => JSON.stringify({ ...bundle, type: 'something-else' })],
+    ['an unknown version', () => JSON.stringify({ ...bundle, version: 2 })],
+    ['another hash algorithm', () => JSON.stringify({ ...bundle, file: { ...bundle.file, algorithm: 'MD5' } })],
+    ['no signature', () => JSON.stringify({ ...bundle, signature: undefined })],
+  ])('throws for %s', async (_name, json) => {
+    await expect(verifyProofBundle(json(), fileHash)).rejects.toMatchObject({ code: 'invalid_proof_bundle' });
+  });
+});
+
+describe('toIsoTime', () => {
+  it('reads seconds, milliseconds and microseconds', () => {
+    const iso = '2026-03-01T12:00:00.000Z';
+    expect(toIsoTime(1_772_366_400)).toBe(iso);
+    expect(toIsoTime(1_772_366_400_000)).toBe(iso);
+    expect(toIsoTime(1_772_366_400_000_000)).toBe(iso);
+  });
+
+  it('reads date strings and numeric strings', () => {
+    expect(toIsoTime('2026-03-01T13:00:00+01:00')).toBe('2026-03-01T12:00:00.000Z');
+    expect(toIsoTime('1772366400000000')).toBe('2026-03-01T12:00:00.000Z');
+  });
+
+  it('returns unparseable times unchanged instead of throwing', () => {
+    expect(toIsoTime('yesterday')).toBe('yesterday');
+    expect(toIsoTime(Number.NaN)).toBe('NaN');
+    expect(toIsoTime(1e30)).toBe('1e+30');
+  });
+});
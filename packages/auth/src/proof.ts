@@ -0,0 +1,212 @@
+/**
+ * Portable signature proof bundles
+ *
+ * A proof bundle is a self-contained, versioned JSON document describing
+ * one Sign It signature. It can be handed to anyone, stored next to the
+ * file, and verified later without network access or a Flowsta account.
+ */
+
+import { FlowstaAuthError } from './errors.js';
+import { hashContent, type HashInput } from './hash.js';
+import { decodeAgentPubKey, verifySignatureLocally } from './signature.js';
+
+// ── Types ──────────────────────────────────────────────────────────
+
+/** Format identifier of proof bundles */
+export const PROOF_BUNDLE_TYPE = 'flowsta-signature-proof';
+
+/** Current proof bundle version */
+export const PROOF_BUNDLE_VERSION = 1;
+
+export interface ProofBundle {
+  type: typeof PROOF_BUNDLE_TYPE;
+  version: typeof PROOF_BUNDLE_VERSION;
+  file: {
+    /** Hex-encoded digest of the file */
+    hash: string;
+    algorithm: 'SHA-256';
+  };
+  signature: {
+    algorithm: 'Ed25519';
+    /** Base64 signature of the raw digest */
+    value: string;
+    /** Signer's Holochain agent public key (uhCAk...) */
+    agentPubKey: string;
+    /** Signer's DID (did:flowsta:uhCAk...) */
+    did: string;
+  };
+  intent: string | null;
+  aiGeneration: string | null;
+  contentRights: Record<string, string> | null;
+  /** ISO 8601 signing time */
+  signedAt: string;
+  /** DHT action hash of the signature record, if it was committed */
+  actionHash: string | null;
+}
+
+/**
+ * A signing result: `signFile()`, or `signDocument()` from
+ * @flowsta/holochain
+ */
+export type SigningResult =
+  | {
+      fileHash: string;
+      signature?: string | null;
+      agentPubKey: string;
+      signedAt: string | number;
+      actionHash?: string | null;
+    }
+  | {
+      file_hash: string;
+      signature?: string;
+      agent_pub_key: string;
+      signed_at: string | number;
+      action_hash?: string | null;
+    };
+
+/** Signing metadata that isn't part of the signing result */
+export interface ProofMetadata {
+  /** Signer's DID. Default: did:flowsta:<agentPubKey> */
+  did?: string;
+  intent?: string;
+  aiGeneration?: string;
+  contentRights?: Record<string, string>;
+}
+
+export interface ProofVerificationResult {
+  /** The file matches and the signature is valid */
+  valid: boolean;
+  /** The file's hash equals the bundle's hash */
+  hashMatches: boolean;
+  /** The signature is a valid Ed25519 signature of the hash by the agent key */
+  signatureValid: boolean;
+  /** The parsed bundle */
+  bundle: ProofBundle;
+}
+
+// ── Export ─────────────────────────────────────────────────────────
+
+/**
+ * Build a proof bundle from a signing result.
+ *
+ * @example
+ * ```typescript
+ * const result = await signDocument({ clientId, appName, fileHash, intent: 'authorship' });
+ * const bundle = createProofBundle(result, { intent: 'authorship' });
+ * download('proof.json', JSON.stringify(bundle, null, 2));
+ * ```
+ *
+ * @throws {FlowstaAuthError} 'invalid_proof_bundle' if the result has no signature
+ */
+export function createProofBundle(result: SigningResult, metadata: ProofMetadata = {}): ProofBundle {
+  const signed = 'fileHash' in result
+    ? result
+    : {
+        fileHash: result.file_hash,
+        signature: result.signature,
+        agentPubKey: result.agent_pub_key,
+        signedAt: result.signed_at,
+        actionHash: result.action_hash,
+      };
+
+  if (!signed.signature) {
+    throw new FlowstaAuthError('The signing result has no signature to export', 'invalid_proof_bundle');
+  }
+  decodeAgentPubKey(signed.agentPubKey);
+
+  return {
+    type: PROOF_BUNDLE_TYPE,
+    version: PROOF_BUNDLE_VERSION,
+    file: { hash: signed.fileHash.toLowerCase(), algorithm: 'SHA-256' },
+    signature: {
+      algorithm: 'Ed25519',
+      value: signed.signature,
+      agentPubKey: signed.agentPubKey,
+      did: metadata.did || `did:flowsta:${signed.agentPubKey}`,
+    },
+    intent: metadata.intent ?? null,
+    aiGeneration: metadata.aiGeneration ?? null,
+    contentRights: metadata.contentRights ?? null,
+    signedAt: toIsoTime(signed.signedAt),
+    actionHash: signed.actionHash ?? null,
+  };
+}
+
+// ── Verification ───────────────────────────────────────────────────
+
+/**
+ * Verify a proof bundle against a file, without any network access.
+ *
+ * Checks that the file hashes to the bundle's hash and that the signature
+ * over that hash was made by the bundle's agent key. The intent, AI
+ * disclosure and content rights are carried along but not covered by the
+ * signature.
+ *
+ * @param bundle A bundle object or its JSON
+ * @param fileOrHash The file (Blob, buffer, stream, `{ path }`) or its SHA-256 hex hash
+ *
+ * @throws {FlowstaAuthError} 'invalid_proof_bundle' if the bundle is malformed or of an unknown version
+ */
+export async function verifyProofBundle(
+  bundle: ProofBundle | string,
+  fileOrHash: Exclude<HashInput, string> | string,
+): Promise<ProofVerificationResult> {
+  const parsed = parseProofBundle(bundle);
+
+  const hash = typeof fileOrHash === 'string' ? fileOrHash.toLowerCase() : await hashContent(fileOrHash);
+  const hashMatches = hash === parsed.file.hash;
+
+  const signatureValid = await verifySignatureLocally({
+    fileHash: parsed.file.hash,
+    signature: parsed.signature.value,
+    agentPubKey: parsed.signature.agentPubKey,
+  });
+
+  return { valid: hashMatches && signatureValid, hashMatches, signatureValid, bundle: parsed };
+}
+
+// ── Helpers ────────────────────────────────────────────────────────
+
+function parseProofBundle(bundle: ProofBundle | string): ProofBundle {
+  let parsed: ProofBundle;
+  try {
+    parsed = typeof bundle === 'string' ? JSON.parse(bundle) : bundle;
+  } catch {
+    throw invalidBundle('Proof bundle is not valid JSON');
+  }
+
+  if (!parsed || parsed.type !== PROOF_BUNDLE_TYPE) {
+    throw invalidBundle('Not a Flowsta signature proof bundle');
+  }
+  if (parsed.version !== PROOF_BUNDLE_VERSION) {
+    throw invalidBundle(`Unsupported proof bundle version ${String(parsed.version)}`);
+  }
+  if (parsed.file?.algorithm !== 'SHA-256' || typeof parsed.file.hash !== 'string') {
+    throw invalidBundle('Proof bundle has no SHA-256 file hash');
+  }
+  if (
+    parsed.signature?.algorithm !== 'Ed25519' ||
+    typeof parsed.signature.value !== 'string' ||
+    typeof parsed.signature.agentPubKey !== 'string'
+  ) {
+    throw invalidBundle('Proof bundle has no Ed25519 signature');
+  }
+  return parsed;
+}
+
+/**
+ * Normalize a signing timestamp to ISO 8601. Numbers (and numeric strings)
+ * may be seconds, milliseconds or Holochain microseconds since the epoch.
+ * A time that can't be parsed is returned unchanged rather than throwing.
+ */
+export function toIsoTime(time: string | number): string {
+  const numeric = typeof time === 'number' ? time : /^\s*\d+(\.\d+)?\s*$/.test(time) ? Number(time) : null;
+  const date = numeric === null
+    ? new Date(time)
+    : new Date(numeric > 1e14 ? numeric / 1000 : numeric > 1e11 ? numeric : numeric * 1000);
+  return Number.isNaN(date.getTime()) ? String(time) : date.toISOString();
+}
+
+function invalidBundle(message: string): FlowstaAuthError {
+  return new FlowstaAuthError(message, 'invalid_proof_bundle');
+}
@@ -24,22 +24,63 @@ import {
   useState, 
   useEffect, 
   useCallback,
+  useRef,
   type ReactNode 
 } from 'react';
-import { FlowstaAuth, type FlowstaAuthConfig, type FlowstaUser, type AuthState } from './index.js';
+import {
+  FlowstaAuth,
+  type FlowstaAuthConfig,
+  type FlowstaUser,
+  type AuthState,
+  type LoginOptions,
+  type CallbackResult,
+  type PopupLoginOptions,
+  type LogoutOptions,
+  type ProfileUpdate,
+  type AuthEvent,
+  type AuthStateListener,
+} from './index.js';
 
 // Re-export types
-export type { FlowstaAuthConfig, FlowstaUser, AuthState };
+export type {
+  FlowstaAuthConfig,
+  FlowstaUser,
+  AuthState,
+  LoginOptions,
+  CallbackResult,
+  PopupLoginOptions,
+  LogoutOptions,
+  ProfileUpdate,
+  AuthEvent,
+  AuthStateListener,
+};
 
 interface FlowstaAuthContextValue extends AuthState {
   /** Redirect to Flowsta login */
-  login: () => Promise<void>;
+  login: (options?: LoginOptions) => Promise<void>;
+  /** Log in through a popup window without leaving the page */
+  loginWithPopup: (options?: PopupLoginOptions) => Promise<FlowstaUser>;
   /** Log out the current user */
-  logout: () => void;
+  logout: (options?: LogoutOptions) => Promise<void>;
   /** Handle OAuth callback (call on redirect URI page) */
-  handleCallback: () => Promise<FlowstaUser>;
+  handleCallback: () => Promise<CallbackResult>;
+  /** Re-fetch the user's profile from Flowsta */
+  refreshUser: () => Promise<FlowstaUser>;
+  /** Change the user's profile (requires the 'update_profile' scope) */
+  updateProfile: (update: ProfileUpdate) => Promise<FlowstaUser>;
 }
 
+/** State before the SDK has been created and restored the session */
+const SIGNED_OUT_STATE: AuthState = {
+  isAuthenticated: false,
+  user: null,
+  accessToken: null,
+  expiresAt: null,
+  scopes: [],
+  isLoading: false,
+  error: null,
+};
+
 const FlowstaAuthContext = createContext<FlowstaAuthContextValue | null>(null);
 
 interface FlowstaAuthProviderProps extends FlowstaAuthConfig {
@@ -57,74 +98,120 @@ export function FlowstaAuthProvider({
   scopes,
   loginUrl,
   apiUrl,
+  ipcUrl,
+  appName,
+  issuer,
+  discovery,
+  endpoints,
+  autoRefresh,
+  refreshLeeway,
+  expiryWarning,
+  storage,
+  transientStorage,
+  syncTabs,
+  verifyCache,
+  linkedAgentsTtl,
 }: FlowstaAuthProviderProps) {
-  const [auth] = useState(() => new FlowstaAuth({ 
+  const config = useRef<FlowstaAuthConfig>({ 
     clientId, 
     redirectUri,
     scopes,
     loginUrl,
     apiUrl,
-  }));
+    ipcUrl,
+    appName,
+    issuer,
+    discovery,
+    endpoints,
+    autoRefresh,
+    refreshLeeway,
+    expiryWarning,
+    storage,
+    transientStorage,
+    syncTabs,
+    verifyCache,
+    linkedAgentsTtl,
+  });
+  const authRef = useRef<FlowstaAuth | null>(null);
+  
+  // Created on first use rather than during render: StrictMode renders twice,
+  // and server rendering never runs the effect that would destroy it
+  const getAuth = useCallback(() => {
+    if (!authRef.current) {
+      authRef.current = new FlowstaAuth(config.current);
+    }
+    return authRef.current;
+  }, []);
   
-  const [state, setState] = useState<AuthState>(() => auth.getState());
+  const [state, setState] = useState<AuthState>(SIGNED_OUT_STATE);
+  const [isLoading, setIsLoading] = useState(false);
+  // Until the stored session is restored, "not authenticated" may be wrong
+  const [isRestoring, setIsRestoring] = useState(true);
   
-  // Check auth state on mount
+  // Mirror the SDK's auth state (async storage restores after construction)
   useEffect(() => {
+    const auth = getAuth();
+    let mounted = true;
     setState(auth.getState());
-  }, [auth]);
+    setIsRestoring(true);
+    auth.ready.catch(() => {}).then(() => {
+      if (!mounted) return;
+      setState(auth.getState());
+      setIsRestoring(false);
+    });
+    const unsubscribe = auth.onAuthStateChange((_event, next) => setState(next));
+    
+    return () => {
+      mounted = false;
+      unsubscribe();
+      auth.destroy();
+      authRef.current = null;
+    };
+  }, [getAuth]);
   
-  const login = useCallback(async () => {
-    setState(prev => ({ ...prev, isLoading: true, error: null }));
+  const login = useCallback(async (options?: LoginOptions) => {
+    setIsLoading(true);
     try {
-      await auth.login();
-    } catch (error) {
-      setState(prev => ({ 
-        ...prev, 
-        isLoading: false, 
-        error: error instanceof Error ? error.message : 'Login failed' 
-      }));
+      await getAuth().login(options);
+    } catch {
+      // Reported through the 'error' event
+      setIsLoading(false);
     }
-  }, [auth]);
+  }, [getAuth]);
   
-  const logout = useCallback(() => {
-    auth.logout();
-    setState({
-      isAuthenticated: false,
-      user: null,
-      accessToken: null,
-      isLoading: false,
-      error: null,
-    });
-  }, [auth]);
+  const loginWithPopup = useCallback(async (options?: PopupLoginOptions) => {
+    setIsLoading(true);
+    try {
+      return await getAuth().loginWithPopup(options);
+    } finally {
+      setIsLoading(false);
+    }
+  }, [getAuth]);
+  
+  const logout = useCallback((options?: LogoutOptions) => getAuth().logout(options), [getAuth]);
   
   const handleCallback = useCallback(async () => {
-    setState(prev => ({ ...prev, isLoading: true, error: null }));
+    setIsLoading(true);
     try {
-      const user = await auth.handleCallback();
-      setState({
-        isAuthenticated: true,
-        user,
-        accessToken: auth.getAccessToken(),
-        isLoading: false,
-        error: null,
-      });
-      return user;
-    } catch (error) {
-      const errorMessage = error instanceof Error ? error.message : 'Authentication failed';
-      setState(prev => ({ 
-        ...prev, 
-        isLoading: false, 
-        error: errorMessage 
-      }));
-      throw error;
+      return await getAuth().handleCallback();
+    } finally {
+      setIsLoading(false);
     }
-  }, [auth]);
+  }, [getAuth]);
+  
+  const refreshUser = useCallback(() => getAuth().refreshUser(), [getAuth]);
+  
+  const updateProfile = useCallback((update: ProfileUpdate) => getAuth().updateProfile(update), [getAuth]);
   
   const value: FlowstaAuthContextValue = {
     ...state,
+    isLoading: isLoading || isRestoring,
     login,
+    loginWithPopup,
     logout,
     handleCallback,
+    refreshUser,
+    updateProfile,
   };
   
   return (
@@ -160,7 +247,7 @@ export function useRequireAuth(options?: { redirectTo?: string }): AuthState & {
         if (options?.redirectTo) {
           window.location.href = options.redirectTo;
         } else {
-          login();
+          login({ returnTo: window.location.href });
         }
       } else {
         setIsReady(true);
@@ -0,0 +1,94 @@
+import { createHash } from 'node:crypto';
+import { beforeAll, describe, expect, it } from 'vitest';
+import { decodeAgentPubKey, verifySignatureLocally } from './signature.js';
+
+function base64(bytes: Uint8Array): string {
+  return btoa(String.fromCharCode(...bytes));
+}
+
+function base64Url(bytes: Uint8Array): string {
+  return base64(bytes).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+}
+
+/** Holochain agent key: "u" + base64url(type prefix + 32-byte key + 4-byte DHT location) */
+function agentPubKey(publicKey: Uint8Array, prefix = [0x84, 0x20, 0x24]): string {
+  return `u${base64Url(new Uint8Array([...prefix, ...publicKey, 1, 2, 3, 4]))}`;
+}
+
+const fileHash = createHash('sha256').update('The quick brown fox').digest('hex');
+const digest = new Uint8Array(createHash('sha256').update('The quick brown fox').digest());
+
+let keys: CryptoKeyPair;
+let publicKey: Uint8Array;
+let signature: string;
+
+beforeAll(async () => {
+  keys = (await crypto.subtle.generateKey({ name: 'Ed25519' }, true, ['sign', 'verify'])) as CryptoKeyPair;
+  publicKey = new Uint8Array(await crypto.subtle.exportKey('raw', keys.publicKey));
+  signature = base64(new Uint8Array(await crypto.subtle.sign({ name: 'Ed25519' }, keys.privateKey, digest)));
+});
+
+describe('decodeAgentPubKey', () => {
+  it('returns the 32-byte Ed25519 key', () => {
+    const key = agentPubKey(publicKey);
+    expect(key.startsWith('uhCAk')).toBe(true);
+    expect([...decodeAgentPubKey(key)]).toEqual([...publicKey]);
+  });
+
+  it.each([
+    ['no "u" prefix', () => agentPubKey(publicKey).slice(1)],
+    ['a different hash type', () => agentPubKey(publicKey, [0x84, 0x21, 0x24])],
+    ['the wrong length', () => agentPubKey(publicKey).slice(0, -4)],
+    ['invalid base64', () => 'u!!!!'],
+  ])('rejects a key with %s', (_name, key) => {
+    expect(() => decodeAgentPubKey(key())).toThrow(expect.objectContaining({ code: 'invalid_agent_key' }));
+  });
+});
+
+describe('verifySignatureLocally', () => {
+  it('accepts a signature of the raw digest', async () => {
+    await expect(verifySignatureLocally({ fileHash, signature, agentPubKey: agentPubKey(publicKey) })).resolves.toBe(true);
+  });
+
+  it('accepts upper-case hashes and URL-safe signatures', async () => {
+    const urlSafe = signature.replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+    await expect(
+      verifySignatureLocally({ fileHash: fileHash.toUpperCase(), signature: urlSafe, agentPubKey: agentPubKey(publicKey) }),
+    ).resolves.toBe(true);
+  });
+
+  it('rejects a signature of another file', async () => {
+    const otherHash = createHash('sha256').update('Another file').digest('hex');
+    await expect(verifySignatureLocally({ fileHash: otherHash, signature, agentPubKey: agentPubKey(publicKey) })).resolves.toBe(false);
+  });
+
+  it('rejects a signature by another agent', async () => {
+    const other = (await crypto.subtle.generateKey({ name: 'Ed25519' }, true, ['sign', 'verify'])) as CryptoKeyPair;
+    const otherKey = new Uint8Array(await crypto.subtle.exportKey('raw', other.publicKey));
+    await expect(verifySignatureLocally({ fileHash, signature, agentPubKey: agentPubKey(otherKey) })).resolves.toBe(false);
+  });
+
+  it('returns false for malformed hashes and signatures', async () => {
+    const agent = agentPubKey(publicKey);
+    await expect(verifySignatureLocally({ fileHash: 'abc', signature, agentPubKey: agent })).resolves.toBe(false);
+    await expect(verifySignatureLocally({ fileHash, signature: base64(new Uint8Array(32)), agentPubKey: agent })).resolves.toBe(false);
+    await expect(verifySignatureLocally({ fileHash, signature: '%%%', agentPubKey: agent })).resolves.toBe(false);
+  });
+
+  it('verifies an explicit payload', async () => {
+    const payload = `flowsta-sign:${fileHash}`;
+    const signed = new Uint8Array(
+      await crypto.subtle.sign({ name: 'Ed25519' }, keys.privateKey, new TextEncoder().encode(payload)),
+    );
+    const agent = agentPubKey(publicKey);
+
+    await expect(verifySignatureLocally({ fileHash, signature: base64(signed), agentPubKey: agent, payload })).resolves.toBe(true);
+    await expect(verifySignatureLocally({ fileHash, signature: base64(signed), agentPubKey: agent })).resolves.toBe(false);
+  });
+
+  it('throws for a malformed agent key', async () => {
+    await expect(verifySignatureLocally({ fileHash, signature, agentPubKey: 'uhCAkxyz' })).rejects.toMatchObject({
+      code: 'invalid_agent_key',
+    });
+  });
+});
@@ -0,0 +1,107 @@
+/**
+ * Local verification of Sign It signatures
+ *
+ * Flowsta Vault signs a file's SHA-256 digest with the user's Ed25519
+ * device key. The public key is the agent key itself (`uhCAk…`), so a
+ * signature can be checked with nothing but WebCrypto: no API call and no
+ * trust in the Flowsta servers.
+ */
+
+import { FlowstaAuthError } from './errors.js';
+import { base64UrlDecode } from './idToken.js';
+
+// ── Types ──────────────────────────────────────────────────────────
+
+export interface LocalSignature {
+  /** SHA-256 hex string of the signed file (64 characters) */
+  fileHash: string;
+  /** Base64 (standard or URL-safe) Ed25519 signature, as returned by `signDocument()` */
+  signature: string;
+  /** The signer's Holochain agent public key in uhCAk... format */
+  agentPubKey: string;
+  /**
+   * The exact bytes that were signed. Default: the raw 32-byte SHA-256
+   * digest decoded from `fileHash`
+   */
+  payload?: Uint8Array | string;
+}
+
+// ── Agent Keys ─────────────────────────────────────────────────────
+
+/** HoloHash type prefix of agent public keys (decodes to "uhCAk" in base64) */
+const AGENT_PREFIX = [0x84, 0x20, 0x24];
+
+/**
+ * Decode a Holochain agent public key (`uhCAk…`) to its 32-byte Ed25519 key.
+ *
+ * The HoloHash is "u" + base64url of a 3-byte type prefix, the 32-byte
+ * key and a 4-byte DHT location.
+ *
+ * @throws {FlowstaAuthError} 'invalid_agent_key' if the string is not an agent key
+ */
+export function decodeAgentPubKey(agentPubKey: string) {
+  const bytes = agentPubKey.startsWith('u') ? tryBase64Decode(agentPubKey.slice(1)) : null;
+  if (!bytes || bytes.length !== 39 || AGENT_PREFIX.some((byte, i) => bytes[i] !== byte)) {
+    throw invalidKey(agentPubKey);
+  }
+  return bytes.slice(3, 35);
+}
+
+// ── Verification ───────────────────────────────────────────────────
+
+/**
+ * Verify a Sign It signature entirely client-side.
+ *
+ * Works offline and in browsers, Web Workers and Node (any runtime with
+ * Ed25519 in WebCrypto).
+ *
+ * @example
+ * ```typescript
+ * import { signDocument } from '@flowsta/holochain';
+ * import { verifySignatureLocally } from '@flowsta/auth';
+ *
+ * const result = await signDocument({ clientId, appName, fileHash });
+ * const valid = await verifySignatureLocally(result); // true
+ * ```
+ *
+ * @returns Whether the signature is a valid signature of the payload by the agent
+ * @throws {FlowstaAuthError} 'invalid_agent_key' if `agentPubKey` is malformed
+ */
+export async function verifySignatureLocally(signed: LocalSignature): Promise<boolean> {
+  const publicKey = decodeAgentPubKey(signed.agentPubKey);
+  const payload = signedPayload(signed);
+  if (!payload) return false;
+
+  const signature = tryBase64Decode(signed.signature);
+  if (!signature || signature.length !== 64) return false;
+
+  const key = await crypto.subtle.importKey('raw', publicKey, { name: 'Ed25519' }, false, ['verify']);
+  return crypto.subtle.verify({ name: 'Ed25519' }, key, signature, payload);
+}
+
+// ── Helpers ────────────────────────────────────────────────────────
+
+/** The bytes the Vault signed, or null if `fileHash` is not a SHA-256 hex digest */
+function signedPayload(signed: LocalSignature) {
+  if (typeof signed.payload === 'string') return new TextEncoder().encode(signed.payload);
+  if (signed.payload) return new Uint8Array(signed.payload);
+
+  if (!/^[0-9a-fA-F]{64}$/.test(signed.fileHash)) return null;
+  const digest = new Uint8Array(32);
+  for (let i = 0; i < 32; i++) {
+    digest[i] = parseInt(signed.fileHash.slice(i * 2, i * 2 + 2), 16);
+  }
+  return digest;
+}
+
+function tryBase64Decode(value: string) {
+  try {
+    return base64UrlDecode(value);
+  } catch {
+    return null;
+  }
+}
+
+function invalidKey(agentPubKey: string): FlowstaAuthError {
+  return new FlowstaAuthError(`"${agentPubKey}" is not a Holochain agent public key`, 'invalid_agent_key');
+}
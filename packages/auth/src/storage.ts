@@ -0,0 +1,214 @@
+/**
+ * Session storage adapters for FlowstaAuth
+ *
+ * FlowstaAuth keeps two kinds of data:
+ * - the session (access/refresh tokens, expiry, user), which should survive reloads
+ * - transient login data (PKCE verifier and state), which only has to survive
+ *   the redirect to login.flowsta.com and back
+ *
+ * Both are read and written through the `FlowstaStorage` interface, so any
+ * key-value store can be plugged in. Methods may be synchronous or return
+ * promises.
+ *
+ * @example
+ * ```typescript
+ * import { FlowstaAuth, memoryStorageAdapter } from '@flowsta/auth';
+ *
+ * const auth = new FlowstaAuth({
+ *   clientId: 'your-client-id',
+ *   redirectUri: 'https://yoursite.com/auth/callback',
+ *   storage: memoryStorageAdapter(),
+ * });
+ * ```
+ */
+
+// ── Types ──────────────────────────────────────────────────────────
+
+/** A key-value store used by FlowstaAuth to persist session data */
+export interface FlowstaStorage {
+  /** Read a value, or null if the key is not set */
+  getItem(key: string): string | null | Promise<string | null>;
+  /** Write a value */
+  setItem(key: string, value: string): void | Promise<void>;
+  /** Delete a value (no-op if the key is not set) */
+  removeItem(key: string): void | Promise<void>;
+}
+
+export interface CookieStorageOptions {
+  /** Cookie path. Default: '/' */
+  path?: string;
+  /** Cookie domain. Default: current host */
+  domain?: string;
+  /** Set the Secure flag. Default: true on https pages */
+  secure?: boolean;
+  /** SameSite policy. Default: 'Lax' */
+  sameSite?: 'Strict' | 'Lax' | 'None';
+  /** Cookie lifetime in seconds. Default: 30 days */
+  maxAge?: number;
+}
+
+export interface IndexedDBStorageOptions {
+  /** Database name. Default: 'flowsta' */
+  dbName?: string;
+  /** Object store name. Default: 'session' */
+  storeName?: string;
+}
+
+// ── Adapters ───────────────────────────────────────────────────────
+
+/**
+ * Store data in `window.localStorage` (persists across tabs and reloads).
+ * Falls back to in-memory storage where localStorage is unavailable,
+ * e.g. during SSR, in workers or in sandboxed iframes.
+ */
+export function localStorageAdapter(): FlowstaStorage {
+  return webStorageAdapter(() => localStorage);
+}
+
+/**
+ * Store data in `window.sessionStorage` (per tab, survives reloads).
+ * Falls back to in-memory storage where sessionStorage is unavailable.
+ */
+export function sessionStorageAdapter(): FlowstaStorage {
+  return webStorageAdapter(() => sessionStorage);
+}
+
+/**
+ * Store data in memory only. Nothing survives a reload, so the user has
+ * to log in again on every page load. Works in every environment.
+ */
+export function memoryStorageAdapter(): FlowstaStorage {
+  const items = new Map<string, string>();
+  return {
+    getItem: (key) => items.get(key) ?? null,
+    setItem: (key, value) => {
+      items.set(key, value);
+    },
+    removeItem: (key) => {
+      items.delete(key);
+    },
+  };
+}
+
+/**
+ * Store data in first-party cookies. Useful when the session must be
+ * readable by your own server, e.g. for SSR.
+ *
+ * Browsers limit cookies to about 4 KB each, which is enough for Flowsta
+ * tokens and the user profile.
+ */
+export function cookieStorageAdapter(options: CookieStorageOptions = {}): FlowstaStorage {
+  const path = options.path || '/';
+  const sameSite = options.sameSite || 'Lax';
+  const maxAge = options.maxAge ?? 30 * 24 * 60 * 60;
+
+  const attributes = (age: number): string => {
+    const secure = options.secure ?? (typeof location !== 'undefined' && location.protocol === 'https:');
+    let attrs = `; Path=${path}; Max-Age=${age}; SameSite=${sameSite}`;
+    if (options.domain) attrs += `; Domain=${options.domain}`;
+    if (secure) attrs += '; Secure';
+    return attrs;
+  };
+
+  return {
+    getItem(key) {
+      if (typeof document === 'undefined') return null;
+      const prefix = `${encodeURIComponent(key)}=`;
+      const cookie = document.cookie.split('; ').find((c) => c.startsWith(prefix));
+      return cookie ? decodeURIComponent(cookie.slice(prefix.length)) : null;
+    },
+    setItem(key, value) {
+      if (typeof document === 'undefined') return;
+      document.cookie = `${encodeURIComponent(key)}=${encodeURIComponent(value)}${attributes(maxAge)}`;
+    },
+    removeItem(key) {
+      if (typeof document === 'undefined') return;
+      document.cookie = `${encodeURIComponent(key)}=${attributes(0)}`;
+    },
+  };
+}
+
+/**
+ * Store data in IndexedDB. Available in browsers and Web Workers, and not
+ * affected by the localStorage restrictions of Safari private mode.
+ *
+ * IndexedDB is asynchronous, so await `auth.ready` before reading the
+ * restored session.
+ */
+export function indexedDBStorageAdapter(options: IndexedDBStorageOptions = {}): FlowstaStorage {
+  const dbName = options.dbName || 'flowsta';
+  const storeName = options.storeName || 'session';
+  let dbPromise: Promise<IDBDatabase> | null = null;
+
+  const openDb = (): Promise<IDBDatabase> => {
+    if (!dbPromise) {
+      dbPromise = new Promise<IDBDatabase>((resolve, reject) => {
+        const request = indexedDB.open(dbName, 1);
+        request.onupgradeneeded = () => {
+          request.result.createObjectStore(storeName);
+        };
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => reject(request.error);
+      });
+      // Allow a later call to retry if opening failed
+      dbPromise.catch(() => {
+        dbPromise = null;
+      });
+    }
+    return dbPromise;
+  };
+
+  const run = async <T>(
+    mode: IDBTransactionMode,
+    operation: (store: IDBObjectStore) => IDBRequest,
+  ): Promise<T> => {
+    const db = await openDb();
+    return new Promise<T>((resolve, reject) => {
+      const request = operation(db.transaction(storeName, mode).objectStore(storeName));
+      request.onsuccess = () => resolve(request.result as T);
+      request.onerror = () => reject(request.error);
+    });
+  };
+
+  return {
+    async getItem(key) {
+      const value = await run<string | undefined>('readonly', (store) => store.get(key));
+      return value ?? null;
+    },
+    async setItem(key, value) {
+      await run('readwrite', (store) => store.put(value, key));
+    },
+    async removeItem(key) {
+      await run('readwrite', (store) => store.delete(key));
+    },
+  };
+}
+
+// ── Helpers ────────────────────────────────────────────────────────
+
+function webStorageAdapter(getStorage: () => Storage): FlowstaStorage {
+  const storage = probeWebStorage(getStorage);
+  if (!storage) {
+    return memoryStorageAdapter();
+  }
+
+  return {
+    getItem: (key) => storage.getItem(key),
+    setItem: (key, value) => storage.setItem(key, value),
+    removeItem: (key) => storage.removeItem(key),
+  };
+}
+
+function probeWebStorage(getStorage: () => Storage): Storage | null {
+  // Accessing or writing Web Storage throws in SSR, workers, sandboxed
+  // iframes and (for writes) Safari private mode
+  try {
+    const storage = getStorage();
+    const probe = '__flowsta_storage_probe__';
+    storage.setItem(probe, probe);
+    storage.removeItem(probe);
+    return storage;
+  } catch {
+    return null;
+  }
+}